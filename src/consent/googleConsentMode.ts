@@ -0,0 +1,61 @@
+/**
+ * Clianta SDK - Google Consent Mode v2
+ * Mirrors consent state to Google tags
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { ConsentState, GoogleConsentModeState } from '../types';
+import type { ConsentManager } from './manager';
+import { logger } from '../core/logger';
+
+type GtagWindow = Window & {
+    gtag?: (...args: unknown[]) => void;
+    dataLayer?: unknown[];
+};
+
+/**
+ * Map consent categories onto Google Consent Mode v2 consent types
+ */
+export function toGoogleConsentMode(state: ConsentState): GoogleConsentModeState {
+    const marketing = state.marketing ? 'granted' : 'denied';
+    return {
+        ad_storage: marketing,
+        analytics_storage: state.analytics ? 'granted' : 'denied',
+        ad_user_data: marketing,
+        ad_personalization: marketing,
+    };
+}
+
+/**
+ * Google tags only read dataLayer commands pushed as an Arguments object
+ */
+function toArguments(..._args: unknown[]): IArguments {
+    return arguments;
+}
+
+/**
+ * Send a `gtag('consent', 'update', ...)` command, through gtag when the page
+ * has it, or straight onto the dataLayer
+ */
+export function updateGoogleConsentMode(state: ConsentState): void {
+    if (typeof window === 'undefined') return;
+    const w = window as GtagWindow;
+    const signals = toGoogleConsentMode(state);
+
+    if (typeof w.gtag === 'function') {
+        w.gtag('consent', 'update', signals);
+    } else {
+        w.dataLayer = w.dataLayer || [];
+        w.dataLayer.push(toArguments('consent', 'update', signals));
+    }
+    logger.debug('Google Consent Mode updated:', signals);
+}
+
+/**
+ * Send the current consent, then every change
+ * @returns unsubscribe function
+ */
+export function connectGoogleConsentMode(manager: ConsentManager): () => void {
+    updateGoogleConsentMode(manager.getState());
+    return manager.onChange((state) => updateGoogleConsentMode(state));
+}
@@ -13,3 +13,6 @@ export {
     getConsentTimestamp,
 } from './storage';
 export type { StoredConsent } from './storage';
+export { detectPrivacySignal, getSignalCategories } from './signals';
+export { TcfAdapter, mapTcfConsent, DEFAULT_TCF_PURPOSES } from './tcf';
+export { connectGoogleConsentMode, updateGoogleConsentMode, toGoogleConsentMode } from './googleConsentMode';
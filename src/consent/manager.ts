@@ -4,9 +4,18 @@
  * @see SDK_VERSION in core/config.ts
  */
 
-import type { ConsentState, ConsentConfig, TrackingEvent } from '../types';
+import type {
+    ConsentState,
+    ConsentConfig,
+    PrivacySignal,
+    PrivacySignalStatus,
+    StorageAdapter,
+    TrackingEvent,
+} from '../types';
 import { saveConsent, loadConsent, clearConsent, hasStoredConsent } from './storage';
+import { detectPrivacySignal, getSignalCategories } from './signals';
 import { logger } from '../core/logger';
+import { getStorage } from '../utils';
 
 /** Maximum events to buffer while waiting for consent */
 const MAX_BUFFER_SIZE = 100;
@@ -15,6 +24,9 @@ export type ConsentChangeCallback = (state: ConsentState, previous: ConsentState
 
 export interface ConsentManagerConfig extends ConsentConfig {
     onConsentChange?: ConsentChangeCallback;
+
+    /** Where consent is stored (default: the default persistent storage) */
+    storage?: StorageAdapter;
 }
 
 /**
@@ -26,17 +38,26 @@ export class ConsentManager {
     private eventBuffer: TrackingEvent[] = [];
     private callbacks: ConsentChangeCallback[] = [];
     private hasExplicitConsent = false;
+    private signal: PrivacySignal | null;
+    private signalOverridden = false;
+    private storage: StorageAdapter;
 
     constructor(config: ConsentManagerConfig = {}) {
         this.config = {
             defaultConsent: { analytics: true, marketing: false, personalization: false },
             waitForConsent: false,
             storageKey: 'mb_consent',
+            respectGpc: true,
+            respectDnt: false,
+            signalScope: 'marketing',
+            allowSignalOverride: true,
             ...config,
         };
+        this.signal = detectPrivacySignal(this.config);
+        this.storage = config.storage ?? getStorage();
 
         // Load stored consent or use default
-        const stored = loadConsent();
+        const stored = loadConsent(this.storage);
         if (stored) {
             this.state = stored.state;
             this.hasExplicitConsent = true;
@@ -47,6 +68,16 @@ export class ConsentManager {
             logger.debug('Using default consent:', this.state);
         }
 
+        // A choice made while the signal was active overrides it; older
+        // consent does not
+        if (this.signal) {
+            this.signalOverridden = !!this.config.allowSignalOverride && stored?.signal === this.signal;
+            if (!this.signalOverridden) {
+                this.applySignal();
+                logger.info(`Privacy signal (${this.signal}) detected, consent revoked:`, this.getSignalCategories());
+            }
+        }
+
         // Register callback if provided
         if (config.onConsentChange) {
             this.callbacks.push(config.onConsentChange);
@@ -60,8 +91,9 @@ export class ConsentManager {
         const previous = { ...this.state };
         this.state = { ...this.state, ...categories };
         this.hasExplicitConsent = true;
+        this.onExplicitChoice();
 
-        saveConsent(this.state);
+        saveConsent(this.state, this.signal, this.storage);
         logger.info('Consent granted:', categories);
 
         this.notifyChange(previous);
@@ -77,8 +109,9 @@ export class ConsentManager {
             this.state[category] = false;
         }
         this.hasExplicitConsent = true;
+        this.onExplicitChoice();
 
-        saveConsent(this.state);
+        saveConsent(this.state, this.signal, this.storage);
         logger.info('Consent revoked:', categories);
 
         this.notifyChange(previous);
@@ -91,8 +124,9 @@ export class ConsentManager {
         const previous = { ...this.state };
         this.state = { ...state };
         this.hasExplicitConsent = true;
+        this.onExplicitChoice();
 
-        saveConsent(this.state);
+        saveConsent(this.state, this.signal, this.storage);
         logger.info('Consent updated:', this.state);
 
         this.notifyChange(previous);
@@ -106,8 +140,12 @@ export class ConsentManager {
         this.state = this.config.defaultConsent || { analytics: true };
         this.hasExplicitConsent = false;
         this.eventBuffer = [];
+        if (this.signal) {
+            this.signalOverridden = false;
+            this.applySignal();
+        }
 
-        clearConsent();
+        clearConsent(this.storage);
         logger.info('Consent reset to defaults');
 
         this.notifyChange(previous);
@@ -149,7 +187,19 @@ export class ConsentManager {
      * Check if there's stored consent
      */
     hasStored(): boolean {
-        return hasStoredConsent();
+        return hasStoredConsent(this.storage);
+    }
+
+    /**
+     * Get the privacy signal detected in the browser, if respected
+     */
+    getPrivacySignal(): PrivacySignalStatus | null {
+        if (!this.signal) return null;
+        return {
+            signal: this.signal,
+            revoked: this.getSignalCategories(),
+            overridden: this.signalOverridden,
+        };
     }
 
     /**
@@ -198,6 +248,31 @@ export class ConsentManager {
         };
     }
 
+    private getSignalCategories(): (keyof ConsentState)[] {
+        return getSignalCategories(this.config.signalScope);
+    }
+
+    /**
+     * Revoke the categories covered by the privacy signal
+     */
+    private applySignal(): void {
+        const revoked = Object.fromEntries(this.getSignalCategories().map((category) => [category, false]));
+        this.state = { ...this.state, ...revoked };
+    }
+
+    /**
+     * An explicit choice made while a privacy signal is active overrides the
+     * signal where allowed; otherwise the signal still applies
+     */
+    private onExplicitChoice(): void {
+        if (!this.signal) return;
+        if (this.config.allowSignalOverride) {
+            this.signalOverridden = true;
+        } else {
+            this.applySignal();
+        }
+    }
+
     /**
      * Notify all callbacks of consent change
      */
@@ -0,0 +1,40 @@
+/**
+ * Clianta SDK - Privacy Signals
+ * Detects Global Privacy Control and Do Not Track
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { ConsentConfig, ConsentState, PrivacySignal } from '../types';
+
+type SignalNavigator = Navigator & {
+    globalPrivacyControl?: boolean;
+    msDoNotTrack?: string;
+};
+
+/**
+ * Detect a privacy signal the config respects, GPC taking precedence
+ */
+export function detectPrivacySignal(config: Pick<ConsentConfig, 'respectGpc' | 'respectDnt'>): PrivacySignal | null {
+    if (typeof navigator === 'undefined') return null;
+    const nav = navigator as SignalNavigator;
+
+    if (config.respectGpc && nav.globalPrivacyControl === true) {
+        return 'gpc';
+    }
+
+    if (config.respectDnt) {
+        // Older browsers expose 'yes', or the flag on window / msDoNotTrack
+        const windowDnt = typeof window !== 'undefined' ? (window as { doNotTrack?: string }).doNotTrack : undefined;
+        const dnt = nav.doNotTrack ?? windowDnt ?? nav.msDoNotTrack;
+        if (dnt === '1' || dnt === 'yes') return 'dnt';
+    }
+
+    return null;
+}
+
+/**
+ * Consent categories a privacy signal revokes
+ */
+export function getSignalCategories(scope: ConsentConfig['signalScope']): (keyof ConsentState)[] {
+    return scope === 'all' ? ['analytics', 'marketing', 'personalization'] : ['marketing'];
+}
@@ -4,31 +4,39 @@
  * @see SDK_VERSION in core/config.ts
  */
 
-import type { ConsentState } from '../types';
+import type { ConsentState, PrivacySignal, StorageAdapter } from '../types';
 import { STORAGE_KEYS } from '../core/config';
+import { getStorage } from '../utils';
 
 export interface StoredConsent {
     state: ConsentState;
     timestamp: number;
     version: number;
+
+    /** Privacy signal active when the consent was given */
+    signal?: PrivacySignal;
 }
 
 const CONSENT_VERSION = 1;
 
 /**
  * Save consent state to storage
+ * @param signal - privacy signal active when the consent was given
  */
-export function saveConsent(state: ConsentState): boolean {
+export function saveConsent(
+    state: ConsentState,
+    signal?: PrivacySignal | null,
+    storage: StorageAdapter = getStorage()
+): boolean {
     try {
-        if (typeof localStorage === 'undefined') return false;
-
         const stored: StoredConsent = {
             state,
             timestamp: Date.now(),
             version: CONSENT_VERSION,
         };
+        if (signal) stored.signal = signal;
 
-        localStorage.setItem(STORAGE_KEYS.CONSENT, JSON.stringify(stored));
+        storage.setItem(STORAGE_KEYS.CONSENT, JSON.stringify(stored));
         return true;
     } catch {
         return false;
@@ -38,18 +46,16 @@ export function saveConsent(state: ConsentState): boolean {
 /**
  * Load consent state from storage
  */
-export function loadConsent(): StoredConsent | null {
+export function loadConsent(storage: StorageAdapter = getStorage()): StoredConsent | null {
     try {
-        if (typeof localStorage === 'undefined') return null;
-
-        const stored = localStorage.getItem(STORAGE_KEYS.CONSENT);
+        const stored = storage.getItem(STORAGE_KEYS.CONSENT);
         if (!stored) return null;
 
         const parsed = JSON.parse(stored) as StoredConsent;
 
         // Validate version
         if (parsed.version !== CONSENT_VERSION) {
-            clearConsent();
+            clearConsent(storage);
             return null;
         }
 
@@ -62,10 +68,9 @@ export function loadConsent(): StoredConsent | null {
 /**
  * Clear consent state from storage
  */
-export function clearConsent(): boolean {
+export function clearConsent(storage: StorageAdapter = getStorage()): boolean {
     try {
-        if (typeof localStorage === 'undefined') return false;
-        localStorage.removeItem(STORAGE_KEYS.CONSENT);
+        storage.removeItem(STORAGE_KEYS.CONSENT);
         return true;
     } catch {
         return false;
@@ -75,14 +80,14 @@ export function clearConsent(): boolean {
 /**
  * Check if consent has been explicitly set
  */
-export function hasStoredConsent(): boolean {
-    return loadConsent() !== null;
+export function hasStoredConsent(storage: StorageAdapter = getStorage()): boolean {
+    return loadConsent(storage) !== null;
 }
 
 /**
  * Get the timestamp when consent was given
  */
-export function getConsentTimestamp(): number | null {
-    const stored = loadConsent();
+export function getConsentTimestamp(storage: StorageAdapter = getStorage()): number | null {
+    const stored = loadConsent(storage);
     return stored?.timestamp ?? null;
 }
@@ -0,0 +1,124 @@
+/**
+ * Clianta SDK - IAB TCF v2.2 Adapter
+ * Maps consent from a TCF CMP (`__tcfapi`) onto consent categories
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { ConsentState, TcfConfig } from '../types';
+import { logger } from '../core/logger';
+
+/** The parts of the CMP's TCData we read */
+interface TCData {
+    tcString?: string;
+    gdprApplies?: boolean;
+    eventStatus?: 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+    listenerId?: number;
+    purpose?: { consents?: Record<string, boolean> };
+    vendor?: { consents?: Record<string, boolean> };
+}
+
+type TcfApi = (
+    command: string,
+    version: number,
+    callback: (tcData: TCData, success: boolean) => void,
+    parameter?: unknown
+) => void;
+
+/**
+ * Default purpose mapping
+ * 1 store/access information; 2-4 and 7 advertising; 5-6 content
+ * personalisation; 8-9 measurement and audience statistics
+ */
+export const DEFAULT_TCF_PURPOSES: Required<NonNullable<TcfConfig['purposes']>> = {
+    analytics: [1, 8, 9],
+    marketing: [1, 2, 3, 4, 7],
+    personalization: [1, 5, 6],
+};
+
+/**
+ * Map TCF purpose (and vendor) consents onto consent categories
+ */
+export function mapTcfConsent(
+    purposeConsents: Record<string, boolean>,
+    config: TcfConfig = {},
+    vendorConsents: Record<string, boolean> = {}
+): ConsentState {
+    const purposes = config.purposes ?? DEFAULT_TCF_PURPOSES;
+    const vendorGranted = config.vendorId === undefined || vendorConsents[config.vendorId] === true;
+
+    const state: ConsentState = {};
+    for (const [category, ids] of Object.entries(purposes) as [keyof ConsentState, number[]][]) {
+        state[category] = vendorGranted && ids.every((id) => purposeConsents[id] === true);
+    }
+    return state;
+}
+
+/**
+ * TCF Adapter - Listens to the CMP and reports mapped consent
+ */
+export class TcfAdapter {
+    private config: TcfConfig;
+    private onConsent: (state: ConsentState) => void;
+    private listenerId: number | null = null;
+    private tcString: string | null = null;
+
+    constructor(config: TcfConfig, onConsent: (state: ConsentState) => void) {
+        this.config = config;
+        this.onConsent = onConsent;
+    }
+
+    /**
+     * Start listening to the CMP
+     * @returns false when no CMP is present
+     */
+    start(): boolean {
+        const api = this.getApi();
+        if (!api) {
+            logger.warn('TCF enabled but no __tcfapi found on the page');
+            return false;
+        }
+
+        api('addEventListener', 2, (tcData, success) => {
+            if (!success || !tcData) return;
+            if (tcData.listenerId !== undefined) this.listenerId = tcData.listenerId;
+
+            // The UI being shown is not a decision
+            if (tcData.eventStatus === 'cmpuishown') return;
+
+            this.tcString = tcData.tcString ?? null;
+            if (tcData.gdprApplies === false) {
+                logger.debug('TCF: GDPR does not apply, consent unchanged');
+                return;
+            }
+
+            const state = mapTcfConsent(tcData.purpose?.consents ?? {}, this.config, tcData.vendor?.consents);
+            logger.debug('TCF consent received:', state);
+            this.onConsent(state);
+        });
+        return true;
+    }
+
+    /**
+     * Stop listening to the CMP
+     */
+    stop(): void {
+        const api = this.getApi();
+        if (api && this.listenerId !== null) {
+            api('removeEventListener', 2, () => undefined, this.listenerId);
+        }
+        this.listenerId = null;
+    }
+
+    /**
+     * The latest TC string, for passing on to vendors
+     */
+    getTCString(): string | null {
+        return this.tcString;
+    }
+
+    private getApi(): TcfApi | null {
+        if (typeof window === 'undefined') return null;
+        const api = (window as Window & { __tcfapi?: TcfApi }).__tcfapi;
+        return typeof api === 'function' ? api : null;
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Clianta SDK - Attribution
+ * First-touch and last-touch campaign attribution, persisted across sessions
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { Attribution, AttributionConfig, ReferrerRule, StorageAdapter, TouchPoint, UrlRulesConfig } from '../types';
+import { STORAGE_KEYS } from './config';
+import { getPageTraffic } from './referrer';
+import { sanitizeUrl } from './urlRules';
+import { getStorage } from '../utils';
+
+/**
+ * Build a touch point for the current page load
+ * @param referrerRules - custom referrer rules, checked before the built-in ones
+ * @param urlRules - rules applied to the landing page
+ * @returns null for navigation within the site, which is not a new touch
+ */
+export function captureTouch(
+    now = Date.now(),
+    referrerRules: ReferrerRule[] = [],
+    urlRules: UrlRulesConfig = {}
+): TouchPoint | null {
+    const traffic = getPageTraffic(referrerRules);
+    if (!traffic) return null;
+
+    return {
+        ...traffic,
+        landingPage: sanitizeUrl(window.location.href, urlRules),
+        timestamp: new Date(now).toISOString(),
+    };
+}
+
+/**
+ * Load stored attribution
+ */
+export function loadAttribution(storage: StorageAdapter = getStorage()): Attribution | null {
+    try {
+        const stored = storage.getItem(STORAGE_KEYS.ATTRIBUTION);
+        return stored ? (JSON.parse(stored) as Attribution) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Remove stored attribution (reset / data deletion)
+ */
+export function clearAttribution(storage: StorageAdapter = getStorage()): void {
+    storage.removeItem(STORAGE_KEYS.ATTRIBUTION);
+}
+
+/**
+ * Apply a touch point to the stored attribution and persist the result.
+ * First touch is kept until its window lapses. A direct visit does not
+ * replace a campaign last touch that is still within its window.
+ */
+export function updateAttribution(
+    touch: TouchPoint | null,
+    config: Required<Omit<AttributionConfig, 'enabled'>>,
+    now = Date.now(),
+    storage: StorageAdapter = getStorage()
+): Attribution | null {
+    const stored = loadAttribution(storage);
+    if (!touch) return stored;
+
+    const age = (point: TouchPoint): number => now - new Date(point.timestamp).getTime();
+
+    const firstTouch = stored && age(stored.firstTouch) <= config.firstTouchWindow ? stored.firstTouch : touch;
+    const keepLast = stored && touch.channel === 'direct' && age(stored.lastTouch) <= config.lastTouchWindow;
+    const lastTouch = keepLast ? stored.lastTouch : touch;
+
+    const attribution: Attribution = { firstTouch, lastTouch };
+    storage.setItem(STORAGE_KEYS.ATTRIBUTION, JSON.stringify(attribution));
+    return attribution;
+}
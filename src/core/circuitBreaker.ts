@@ -0,0 +1,107 @@
+/**
+ * Clianta SDK - Circuit Breaker
+ * Stops sending to a backend that keeps failing, then probes it after a cooldown
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { CircuitBreakerConfig, CircuitBreakerSnapshot, CircuitState } from '../types';
+import { logger } from './logger';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN = 30000; // 30 seconds
+
+/**
+ * Consecutive-failure circuit breaker.
+ * closed → open after `failureThreshold` failures; open → half_open after
+ * `cooldown`; a half-open probe closes the circuit on success or reopens it.
+ */
+export class CircuitBreaker {
+    private config: Required<CircuitBreakerConfig>;
+    private state: CircuitState = 'closed';
+    private failures = 0;
+    private openUntil = 0;
+    private probing = false;
+
+    constructor(config: CircuitBreakerConfig = {}) {
+        this.config = {
+            enabled: config.enabled ?? true,
+            failureThreshold: config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+            cooldown: config.cooldown ?? DEFAULT_COOLDOWN,
+        };
+    }
+
+    /**
+     * Whether a request may be sent now
+     * In the half-open state only one probe request is allowed at a time.
+     */
+    canRequest(): boolean {
+        if (!this.config.enabled) return true;
+
+        if (this.state === 'open') {
+            if (Date.now() < this.openUntil) return false;
+            this.state = 'half_open';
+            this.probing = false;
+            logger.debug('Circuit half-open, probing backend');
+        }
+
+        if (this.state === 'half_open') {
+            if (this.probing) return false;
+            this.probing = true;
+        }
+
+        return true;
+    }
+
+    /**
+     * Record a request the backend handled
+     */
+    recordSuccess(): void {
+        if (this.state !== 'closed') {
+            logger.info('Circuit closed, backend recovered');
+        }
+        this.state = 'closed';
+        this.failures = 0;
+        this.probing = false;
+    }
+
+    /**
+     * Record a failed request (network error, 5xx, 429)
+     */
+    recordFailure(): void {
+        if (!this.config.enabled) return;
+
+        this.failures++;
+        if (this.state === 'half_open' || this.failures >= this.config.failureThreshold) {
+            this.open(this.config.cooldown);
+        }
+    }
+
+    /**
+     * Stop sending for at least `ms` (e.g. from a Retry-After header)
+     */
+    pause(ms: number): void {
+        if (!this.config.enabled || ms <= 0) return;
+        this.open(ms);
+    }
+
+    /**
+     * Current state for diagnostics
+     */
+    getSnapshot(): CircuitBreakerSnapshot {
+        // Report a lapsed cooldown as half-open without consuming the probe
+        const state = this.state === 'open' && Date.now() >= this.openUntil ? 'half_open' : this.state;
+        return {
+            state,
+            failures: this.failures,
+            openUntil: this.state === 'open' ? this.openUntil : null,
+        };
+    }
+
+    private open(ms: number): void {
+        const until = Date.now() + ms;
+        this.openUntil = this.state === 'open' ? Math.max(this.openUntil, until) : until;
+        this.state = 'open';
+        this.probing = false;
+        logger.warn(`Circuit open, pausing requests for ${Math.round((this.openUntil - Date.now()) / 1000)}s`);
+    }
+}
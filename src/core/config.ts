@@ -61,10 +61,69 @@ export const DEFAULT_CONFIG: Required<CliantaConfig> = {
         waitForConsent: false,
         storageKey: 'mb_consent',
         anonymousMode: false,
+        respectGpc: true,
+        respectDnt: false,
+        signalScope: 'marketing',
+        allowSignalOverride: true,
+        tcf: false,
+        googleConsentMode: false,
     },
     cookieDomain: '',
+    cookieSecure: typeof window !== 'undefined' && window.location?.protocol === 'https:',
+    cookieSameSite: 'Lax',
     useCookies: false,
     cookielessMode: false,
+    storage: 'localStorage',
+    offlineQueue: {
+        storage: 'localStorage',
+    },
+    crossTabQueue: true,
+    onEventsRejected: () => undefined,
+    onSessionChange: () => undefined,
+    transport: {},
+    rateLimit: {},
+    serverMode: false,
+    linker: {
+        domains: [],
+        param: '_cl',
+        ttl: 2 * 60 * 1000, // 2 minutes
+        acceptIncoming: true,
+    },
+    attribution: {
+        enabled: true,
+        firstTouchWindow: 90 * 24 * 60 * 60 * 1000, // 90 days
+        lastTouchWindow: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+    referrerRules: [],
+    eventSchema: {
+        events: {},
+        onInvalid: 'warn',
+        strict: false,
+    },
+    redaction: {
+        enabled: true,
+        patterns: ['email', 'phone', 'creditCard', 'jwt'],
+        queryParams: [
+            'token',
+            'access_token',
+            'id_token',
+            'refresh_token',
+            'auth',
+            'code',
+            'password',
+            'secret',
+            'api_key',
+            'apikey',
+        ],
+        mode: 'mask',
+        allowList: ['identify:email', 'identify:phone'],
+    },
+    urlRules: {
+        stripParams: [],
+        collapseIds: false,
+        pathRules: [],
+        dropHash: false,
+    },
 };
 
 /** Storage keys */
@@ -74,6 +133,13 @@ export const STORAGE_KEYS = {
     SESSION_TIMESTAMP: 'mb_st',
     CONSENT: 'mb_consent',
     EVENT_QUEUE: 'mb_queue',
+    QUEUE_LEADER: 'mb_queue_leader',
+    ATTRIBUTION: 'mb_attr',
+    SESSION_CONTEXT: 'mb_sctx',
+    SESSION_STATS: 'mb_sstats',
+    SUPER_PROPERTIES: 'mb_props',
+    USER_ID: 'mb_uid',
+    GROUPS: 'mb_groups',
 } as const;
 
 /** Scroll depth milestones to track */
@@ -98,5 +164,41 @@ export function mergeConfig(userConfig: CliantaConfig = {}): Required<CliantaCon
             ...DEFAULT_CONFIG.consent,
             ...userConfig.consent,
         },
+        offlineQueue: {
+            ...DEFAULT_CONFIG.offlineQueue,
+            ...userConfig.offlineQueue,
+        },
+        transport: {
+            ...DEFAULT_CONFIG.transport,
+            ...userConfig.transport,
+        },
+        rateLimit: {
+            ...DEFAULT_CONFIG.rateLimit,
+            ...userConfig.rateLimit,
+        },
+        linker: {
+            ...DEFAULT_CONFIG.linker,
+            ...userConfig.linker,
+        },
+        attribution: {
+            ...DEFAULT_CONFIG.attribution,
+            ...userConfig.attribution,
+        },
+        eventSchema: {
+            ...DEFAULT_CONFIG.eventSchema,
+            ...userConfig.eventSchema,
+        },
+        redaction: {
+            ...DEFAULT_CONFIG.redaction,
+            ...userConfig.redaction,
+            // Added to, not replaced, so identify keeps its email and phone
+            allowList: [
+                ...new Set([...DEFAULT_CONFIG.redaction.allowList!, ...(userConfig.redaction?.allowList ?? [])]),
+            ],
+        },
+        urlRules: {
+            ...DEFAULT_CONFIG.urlRules,
+            ...userConfig.urlRules,
+        },
     };
 }
@@ -0,0 +1,100 @@
+/**
+ * Clianta SDK - Batch Envelope
+ * Compact v2 wire format that carries shared event context once per batch
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { BatchEnvelopeV2, CompactEvent, SharedEventContext, TrackingEvent } from '../types';
+
+/** Fields hoisted into the envelope context */
+const SHARED_KEYS: (keyof SharedEventContext)[] = [
+    'workspaceId',
+    'visitorId',
+    'userId',
+    'groups',
+    'sessionId',
+    'device',
+    'utm',
+    'attribution',
+    'sdkVersion',
+];
+
+function isSame(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Encode events as a v2 envelope
+ * The first event supplies the shared context; later events carry only the
+ * shared fields that differ from it, with null for a field the event lacks
+ * (e.g. no userId after reset()) so that decoding doesn't fill it in.
+ */
+export function encodeBatch(events: TrackingEvent[]): BatchEnvelopeV2 {
+    const first = events[0];
+    const context = {} as SharedEventContext;
+    if (first) {
+        for (const key of SHARED_KEYS) {
+            if (first[key] !== undefined) {
+                (context as Record<string, unknown>)[key] = first[key];
+            }
+        }
+    }
+
+    const compact = events.map((event) => {
+        const result: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(event)) {
+            if (!SHARED_KEYS.includes(key as keyof SharedEventContext)) {
+                result[key] = value;
+            }
+        }
+        for (const key of SHARED_KEYS) {
+            const value = event[key];
+            if (value === undefined) {
+                if (context[key] !== undefined) result[key] = null;
+            } else if (!isSame(value, context[key])) {
+                result[key] = value;
+            }
+        }
+        return result as CompactEvent;
+    });
+
+    return { v: 2, context, events: compact };
+}
+
+/**
+ * Expand a v2 envelope back into full events
+ */
+export function decodeBatch(envelope: BatchEnvelopeV2): TrackingEvent[] {
+    return envelope.events.map((event) => {
+        const decoded: Record<string, unknown> = { ...envelope.context, ...event };
+        for (const key of SHARED_KEYS) {
+            if (decoded[key] === null) delete decoded[key];
+        }
+        return decoded as unknown as TrackingEvent;
+    });
+}
+
+/**
+ * Check whether a parsed value is a v2 envelope
+ */
+export function isBatchEnvelope(value: unknown): value is BatchEnvelopeV2 {
+    return (
+        !!value &&
+        typeof value === 'object' &&
+        (value as BatchEnvelopeV2).v === 2 &&
+        Array.isArray((value as BatchEnvelopeV2).events)
+    );
+}
+
+/**
+ * Read events from a stored or received batch in either format
+ * (v1 plain array / `{ events }` object, or v2 envelope)
+ */
+export function readBatch(value: unknown): TrackingEvent[] {
+    if (isBatchEnvelope(value)) return decodeBatch(value);
+    if (Array.isArray(value)) return value as TrackingEvent[];
+    if (value && typeof value === 'object' && Array.isArray((value as { events?: unknown }).events)) {
+        return (value as { events: TrackingEvent[] }).events;
+    }
+    return [];
+}
@@ -0,0 +1,120 @@
+/**
+ * Clianta SDK - Cross-Domain Linker
+ * Carries visitor and session IDs to other domains in a URL parameter
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import { logger } from './logger';
+import { hashString } from '../utils';
+
+const TOKEN_VERSION = '1';
+
+export interface LinkedIds {
+    visitorId: string;
+    sessionId: string;
+}
+
+/**
+ * Hash of the browser user agent, so a decorated link shared with someone
+ * else is not adopted by their browser
+ */
+function getUserAgentHash(): string {
+    return hashString(typeof navigator !== 'undefined' ? navigator.userAgent : '');
+}
+
+function sign(parts: string[], secret: string): string {
+    return hashString([...parts, getUserAgentHash(), secret].join('.'));
+}
+
+/**
+ * Create a linker token: version.timestamp.visitorId.sessionId.signature
+ * The signature makes tokens tamper-evident; it is not a secret, since the
+ * signing key ships to the browser.
+ */
+export function createLinkerToken(ids: LinkedIds, secret: string, now = Date.now()): string {
+    const parts = [TOKEN_VERSION, now.toString(36), ids.visitorId, ids.sessionId];
+    return [...parts, sign(parts, secret)].join('.');
+}
+
+/**
+ * Verify a linker token
+ * @returns the linked IDs, or null if the token is malformed, tampered with,
+ *   from another browser, or older than `ttl`
+ */
+export function parseLinkerToken(token: string, secret: string, ttl: number, now = Date.now()): LinkedIds | null {
+    const parts = token.split('.');
+    if (parts.length !== 5 || parts[0] !== TOKEN_VERSION) return null;
+
+    const [version, time, visitorId, sessionId, signature] = parts;
+    if (!visitorId || sign([version, time, visitorId, sessionId], secret) !== signature) {
+        logger.debug('Linker token signature mismatch');
+        return null;
+    }
+
+    const age = now - parseInt(time, 36);
+    if (!(age >= 0 && age <= ttl)) {
+        logger.debug('Linker token expired');
+        return null;
+    }
+
+    return { visitorId, sessionId };
+}
+
+/**
+ * Check whether a hostname is one of the linked domains or a subdomain of one
+ */
+export function isLinkedDomain(hostname: string, domains: string[]): boolean {
+    const host = hostname.toLowerCase();
+    return domains.some((domain) => {
+        const d = domain.toLowerCase().replace(/^\./, '');
+        return host === d || host.endsWith('.' + d);
+    });
+}
+
+/**
+ * Add the token to a URL if it points to a linked domain other than the
+ * current one
+ * @returns the decorated URL, or null if it should not be decorated
+ */
+export function decorateUrl(url: string, token: string, param: string, domains: string[]): string | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+        const target = new URL(url, window.location.href);
+        if (target.protocol !== 'http:' && target.protocol !== 'https:') return null;
+        if (target.hostname === window.location.hostname) return null;
+        if (!isLinkedDomain(target.hostname, domains)) return null;
+
+        target.searchParams.set(param, token);
+        return target.toString();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the linker parameter from the current URL and strip it from the
+ * address bar, so it isn't shared, bookmarked or tracked in page views
+ */
+export function readLinkerParam(param: string, secret: string, ttl: number): LinkedIds | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+        const url = new URL(window.location.href);
+        const token = url.searchParams.get(param);
+        if (!token) return null;
+
+        url.searchParams.delete(param);
+        if (typeof history !== 'undefined' && history.replaceState) {
+            history.replaceState(history.state, '', url.toString());
+        }
+
+        const ids = parseLinkerToken(token, secret, ttl);
+        if (ids) {
+            logger.info('Adopted visitor ID from linked domain');
+        }
+        return ids;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,103 @@
+/**
+ * Clianta SDK - Event Middleware
+ * Ordered chain that can enrich, rewrite, or drop events before queueing
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { EventMiddleware, MiddlewareContext, TrackingEvent } from '../types';
+import { logger } from './logger';
+
+/**
+ * Runs registered middleware in order and serializes dispatch so that
+ * async middleware cannot reorder events
+ */
+export class MiddlewareChain {
+    private middlewares: EventMiddleware[] = [];
+    private pending: Promise<void> = Promise.resolve();
+    private inFlight = 0;
+
+    /**
+     * Register a middleware
+     * @returns function that removes the middleware
+     */
+    use(middleware: EventMiddleware): () => void {
+        this.middlewares.push(middleware);
+        return () => {
+            const index = this.middlewares.indexOf(middleware);
+            if (index > -1) {
+                this.middlewares.splice(index, 1);
+            }
+        };
+    }
+
+    /**
+     * Number of registered middlewares
+     */
+    get size(): number {
+        return this.middlewares.length;
+    }
+
+    /**
+     * Run an event through the chain and hand the result to `next`.
+     * `next` is called synchronously when no middleware is registered
+     * and nothing is pending, so the common path stays synchronous.
+     */
+    dispatch(
+        event: TrackingEvent,
+        context: MiddlewareContext,
+        next: (event: TrackingEvent) => void
+    ): void {
+        if (this.middlewares.length === 0 && this.inFlight === 0) {
+            next(event);
+            return;
+        }
+
+        this.inFlight++;
+        this.pending = this.pending
+            .then(async () => {
+                const result = await this.run(event, context);
+                if (result) {
+                    next(result);
+                }
+            })
+            .catch((error) => {
+                logger.error('Middleware dispatch error:', error);
+            })
+            .finally(() => {
+                this.inFlight--;
+            });
+    }
+
+    /**
+     * Wait until all dispatched events have left the chain
+     */
+    async drain(): Promise<void> {
+        await this.pending;
+    }
+
+    /**
+     * Run an event through every middleware in order
+     * @returns the final event, or null if a middleware dropped it
+     */
+    async run(event: TrackingEvent, context: MiddlewareContext): Promise<TrackingEvent | null> {
+        let current = event;
+
+        for (const middleware of [...this.middlewares]) {
+            try {
+                const result = await middleware(current, context);
+                if (result === null) {
+                    logger.debug('Event dropped by middleware:', current.eventName);
+                    return null;
+                }
+                if (result) {
+                    current = result;
+                }
+            } catch (error) {
+                // A broken middleware should not lose the event
+                logger.error('Middleware error:', error);
+            }
+        }
+
+        return current;
+    }
+}
@@ -0,0 +1,365 @@
+/**
+ * Clianta SDK - Offline Event Store
+ * IndexedDB-backed persistence for the event queue
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { EventStore, OfflineQueueConfig, StorageAdapter, TrackingEvent } from '../types';
+import { logger } from './logger';
+import { readBatch } from './envelope';
+import { getStorageSet, generateUUID } from '../utils';
+
+export const DB_NAME = 'clianta';
+const DB_VERSION = 1;
+const STORE_NAME = 'events';
+
+/** Defaults for size- and age-based eviction */
+const DEFAULT_MAX_EVENTS = 10000;
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024; // 20 MB
+const DEFAULT_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/** Share of the oldest events dropped when the browser quota is hit */
+const QUOTA_EVICTION_RATIO = 0.1;
+
+interface StoredEvent {
+    eventId: string;
+    event: TrackingEvent;
+    size: number;
+    storedAt: number;
+    /** Write order; events of one batch share a storedAt */
+    seq: number;
+}
+
+export interface IndexedDBQueueStoreConfig extends OfflineQueueConfig {
+    /** Database name (default: 'clianta') */
+    name?: string;
+
+    /** Storage key of a legacy queue to migrate on first load */
+    legacyStorageKey?: string;
+
+    /** Storage holding the legacy queue (default: the default queue storage) */
+    legacyStorage?: StorageAdapter;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolve when a transaction commits
+ */
+function complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function isQuotaError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+/**
+ * Append-only IndexedDB store for queued events.
+ * Events are written once when queued and deleted individually once the
+ * backend has acknowledged them. Records are keyed by event ID so that any
+ * tab can acknowledge events written by another.
+ */
+export class IndexedDBQueueStore implements EventStore {
+    private db: Promise<IDBDatabase | null>;
+    private config: Required<Omit<IndexedDBQueueStoreConfig, 'storage' | 'store'>>;
+    /** Serialized sizes of events known to this tab, by event ID */
+    private sizes = new Map<string, number>();
+    /** Running estimates, reconciled on every eviction pass */
+    private count = 0;
+    private bytes = 0;
+    /** Latest append, awaited before removals so new keys are known */
+    private lastAppend: Promise<void> = Promise.resolve();
+    /** Last sequence number written by this tab */
+    private lastSeq = 0;
+
+    /**
+     * Check whether IndexedDB is usable in this environment
+     */
+    static isSupported(): boolean {
+        try {
+            return typeof indexedDB !== 'undefined' && indexedDB !== null;
+        } catch {
+            return false;
+        }
+    }
+
+    constructor(config: IndexedDBQueueStoreConfig = {}) {
+        this.config = {
+            maxEvents: config.maxEvents ?? DEFAULT_MAX_EVENTS,
+            maxBytes: config.maxBytes ?? DEFAULT_MAX_BYTES,
+            maxAge: config.maxAge ?? DEFAULT_MAX_AGE,
+            name: config.name ?? DB_NAME,
+            legacyStorageKey: config.legacyStorageKey ?? '',
+            legacyStorage: config.legacyStorage ?? getStorageSet().queue,
+        };
+        this.db = this.open();
+    }
+
+    /**
+     * Load stored events, oldest first
+     * Expired and over-budget events are evicted before loading.
+     */
+    async load(limit = Infinity): Promise<TrackingEvent[]> {
+        const db = await this.db;
+        if (!db) return [];
+
+        try {
+            await this.evict();
+
+            const tx = db.transaction(STORE_NAME, 'readonly');
+            const index = tx.objectStore(STORE_NAME).index('seq');
+            const records = await promisify(index.getAll() as IDBRequest<StoredEvent[]>);
+
+            const events: TrackingEvent[] = [];
+            for (const record of records.slice(0, limit)) {
+                this.sizes.set(record.eventId, record.size);
+                events.push(record.event);
+            }
+            return events;
+        } catch (error) {
+            logger.error('Failed to load offline queue:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Append events to the store
+     */
+    append(events: TrackingEvent[]): Promise<void> {
+        if (events.length === 0) return this.lastAppend;
+
+        const previous = this.lastAppend;
+        this.lastAppend = previous.then(() => this.appendNow(events));
+        return this.lastAppend;
+    }
+
+    /**
+     * Write events, evicting and retrying once if the quota is exceeded
+     */
+    private async appendNow(events: TrackingEvent[]): Promise<void> {
+        try {
+            await this.write(events);
+        } catch (error) {
+            if (!isQuotaError(error)) {
+                logger.error('Failed to persist events:', error);
+                return;
+            }
+
+            // Make room and retry once
+            logger.warn('Storage quota exceeded, evicting oldest events');
+            await this.evict(Math.max(1, Math.floor(this.count * QUOTA_EVICTION_RATIO)));
+            try {
+                await this.write(events);
+            } catch (retryError) {
+                logger.error('Failed to persist events after eviction:', retryError);
+                return;
+            }
+        }
+
+        if (this.count > this.config.maxEvents || this.bytes > this.config.maxBytes) {
+            await this.evict();
+        }
+    }
+
+    /**
+     * Remove acknowledged events from the store
+     */
+    async remove(events: TrackingEvent[]): Promise<void> {
+        const db = await this.db;
+        if (!db) return;
+
+        await this.lastAppend;
+
+        const ids = events
+            .map((event) => event.eventId)
+            .filter((id): id is string => !!id);
+        if (ids.length === 0) return;
+
+        try {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            const store = tx.objectStore(STORE_NAME);
+            for (const id of ids) {
+                store.delete(id);
+            }
+            await complete(tx);
+
+            for (const id of ids) {
+                const size = this.sizes.get(id);
+                if (size !== undefined) {
+                    this.count = Math.max(0, this.count - 1);
+                    this.bytes = Math.max(0, this.bytes - size);
+                    this.sizes.delete(id);
+                }
+            }
+        } catch (error) {
+            logger.error('Failed to remove acknowledged events:', error);
+        }
+    }
+
+    /**
+     * Remove all stored events
+     */
+    async clear(): Promise<void> {
+        const db = await this.db;
+        if (!db) return;
+
+        await this.lastAppend;
+
+        try {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).clear();
+            await complete(tx);
+            this.sizes.clear();
+            this.count = 0;
+            this.bytes = 0;
+        } catch (error) {
+            logger.error('Failed to clear offline queue:', error);
+        }
+    }
+
+    /**
+     * Write event records
+     * Uses put so that an event handed over from another tab is stored once.
+     */
+    private async write(events: TrackingEvent[]): Promise<void> {
+        const db = await this.db;
+        if (!db) return;
+
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        const now = Date.now();
+
+        for (const event of events) {
+            if (!event.eventId) {
+                event.eventId = generateUUID();
+            }
+            const size = JSON.stringify(event).length;
+            const record: StoredEvent = { eventId: event.eventId, event, size, storedAt: now, seq: this.nextSeq(now) };
+            store.put(record);
+            if (!this.sizes.has(event.eventId)) {
+                this.count++;
+                this.bytes += size;
+            }
+            this.sizes.set(event.eventId, size);
+        }
+
+        await complete(tx);
+    }
+
+    /**
+     * Drop expired events, then the oldest events until the store is within
+     * its count and size budgets
+     * @param extra - additional oldest events to drop (quota recovery)
+     */
+    private async evict(extra = 0): Promise<void> {
+        const db = await this.db;
+        if (!db) return;
+
+        try {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            const store = tx.objectStore(STORE_NAME);
+            const records = await promisify(store.index('seq').getAll() as IDBRequest<StoredEvent[]>);
+
+            const cutoff = Date.now() - this.config.maxAge;
+            let count = records.length;
+            let bytes = records.reduce((sum, record) => sum + record.size, 0);
+            let toDrop = extra;
+            let evicted = 0;
+
+            for (const record of records) {
+                const expired = record.storedAt < cutoff;
+                const overBudget = count > this.config.maxEvents || bytes > this.config.maxBytes;
+                if (!expired && !overBudget && toDrop <= 0) break;
+
+                store.delete(record.eventId);
+                this.sizes.delete(record.eventId);
+                count--;
+                bytes -= record.size;
+                toDrop--;
+                evicted++;
+            }
+
+            await complete(tx);
+            this.count = count;
+            this.bytes = bytes;
+
+            if (evicted > 0) {
+                logger.warn(`Evicted ${evicted} events from offline queue`);
+            }
+        } catch (error) {
+            logger.error('Offline queue eviction failed:', error);
+        }
+    }
+
+    /**
+     * Sequence number for a new record: increasing within this tab and
+     * roughly in time order across tabs
+     */
+    private nextSeq(now: number): number {
+        this.lastSeq = Math.max(this.lastSeq + 1, now * 1000);
+        return this.lastSeq;
+    }
+
+    /**
+     * Open the database and migrate any legacy storage queue
+     */
+    private async open(): Promise<IDBDatabase | null> {
+        try {
+            const request = indexedDB.open(this.config.name, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'eventId' });
+                store.createIndex('seq', 'seq');
+            };
+            const db = await promisify(request);
+            await this.migrate(db);
+            return db;
+        } catch (error) {
+            logger.error('Failed to open IndexedDB, events will not persist offline:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Move events persisted by the storage adapter queue into IndexedDB
+     */
+    private async migrate(db: IDBDatabase): Promise<void> {
+        const key = this.config.legacyStorageKey;
+        if (!key) return;
+
+        const stored = this.config.legacyStorage.getItem(key);
+        if (!stored) return;
+
+        try {
+            const events = readBatch(JSON.parse(stored));
+            if (events.length > 0) {
+                const tx = db.transaction(STORE_NAME, 'readwrite');
+                const store = tx.objectStore(STORE_NAME);
+                const now = Date.now();
+                for (const event of events) {
+                    const eventId = event.eventId || generateUUID();
+                    event.eventId = eventId;
+                    const size = JSON.stringify(event).length;
+                    store.put({ eventId, event, size, storedAt: now, seq: this.nextSeq(now) } as StoredEvent);
+                }
+                await complete(tx);
+                logger.debug(`Migrated ${events.length} events from storage`);
+            }
+            this.config.legacyStorage.removeItem(key);
+        } catch (error) {
+            logger.error('Failed to migrate legacy queue:', error);
+        }
+    }
+}
@@ -4,17 +4,32 @@
  * @see SDK_VERSION in core/config.ts
  */
 
-import type { QueueConfig, TrackingEvent } from '../types';
-import { Transport } from './transport';
+import type { EventStore, QueueConfig, RejectedEvent, TrackingEvent, TransportResult } from '../types';
+import { Transport, chunkEvents } from './transport';
+import { IndexedDBQueueStore, DB_NAME } from './offlineStore';
+import { TabCoordinator, CHANNEL_NAME } from './tabCoordinator';
+import { RateLimiter } from './rateLimiter';
+import { encodeBatch, readBatch } from './envelope';
 import { logger } from './logger';
-import { getLocalStorage, setLocalStorage } from '../utils';
+import { generateUUID, getStorageSet } from '../utils';
 import { STORAGE_KEYS } from './config';
 
 const MAX_QUEUE_SIZE = 1000;
-/** Rate limit: max events per window */
-const RATE_LIMIT_MAX_EVENTS = 100;
-/** Rate limit window in ms (1 minute) */
-const RATE_LIMIT_WINDOW_MS = 60000;
+/** How many recently sent event IDs to remember for deduplication */
+const SENT_HISTORY_SIZE = 1000;
+
+/** The parts of the Node.js process object used for exit hooks */
+interface ExitHookProcess {
+    on(event: 'beforeExit', listener: () => void): unknown;
+    off(event: 'beforeExit', listener: () => void): unknown;
+}
+
+function getProcess(): ExitHookProcess | null {
+    const proc = (globalThis as { process?: Partial<ExitHookProcess> }).process;
+    return proc && typeof proc.on === 'function' && typeof proc.off === 'function'
+        ? (proc as ExitHookProcess)
+        : null;
+}
 
 /**
  * Event queue with batching, persistence, rate limiting, and auto-flush
@@ -25,45 +40,98 @@ export class EventQueue {
     private config: Required<QueueConfig>;
     private flushTimer: ReturnType<typeof setInterval> | null = null;
     private isFlushing = false;
-    /** Rate limiting: timestamps of recent events */
-    private eventTimestamps: number[] = [];
+    /** IndexedDB or custom store, when configured and available */
+    private store: EventStore | null = null;
+    /** The store holds events that did not fit in memory */
+    private spilled = false;
+    /** Bumped on every spill, so a page-in can tell if it missed one */
+    private spillCount = 0;
+    /** Cross-tab leader election, when enabled */
+    private coordinator: TabCoordinator | null = null;
+    /** IDs of recently delivered events, oldest first */
+    private sentIds = new Set<string>();
+    private rateLimiter: RateLimiter;
+    /** Node.js beforeExit listener, when flushOnExit is set */
+    private exitHandler: (() => void) | null = null;
 
     constructor(transport: Transport, config: Partial<QueueConfig> = {}) {
         this.transport = transport;
+        const scope = config.scope ?? '';
+        const scoped = (name: string): string => (scope ? `${name}_${scope}` : name);
         this.config = {
             batchSize: config.batchSize ?? 10,
             flushInterval: config.flushInterval ?? 5000,
             maxQueueSize: config.maxQueueSize ?? MAX_QUEUE_SIZE,
-            storageKey: config.storageKey ?? STORAGE_KEYS.EVENT_QUEUE,
+            storageKey: config.storageKey ?? scoped(STORAGE_KEYS.EVENT_QUEUE),
+            storage: config.storage ?? getStorageSet().queue,
+            offline: config.offline ?? {},
+            crossTab: config.crossTab ?? false,
+            onRejected: config.onRejected ?? (() => undefined),
+            rateLimit: config.rateLimit ?? {},
+            flushOnExit: config.flushOnExit ?? false,
+            scope,
         };
+        this.rateLimiter = new RateLimiter(this.config.rateLimit);
+
+        if (this.config.crossTab && typeof window !== 'undefined') {
+            this.coordinator = new TabCoordinator({
+                lockKey: scoped(STORAGE_KEYS.QUEUE_LEADER),
+                channelName: scoped(CHANNEL_NAME),
+                onEvents: (events) => this.receive(events),
+            });
+        }
+
+        if (this.config.storageKey !== STORAGE_KEYS.EVENT_QUEUE) {
+            this.adoptLegacyQueue();
+        }
 
         // Restore persisted queue
-        this.restoreQueue();
+        if (this.config.offline.store) {
+            this.store = this.config.offline.store;
+            this.restoreFromStore();
+        } else if (this.config.offline.storage === 'indexedDB' && IndexedDBQueueStore.isSupported()) {
+            this.store = new IndexedDBQueueStore({
+                ...this.config.offline,
+                name: scoped(DB_NAME),
+                legacyStorageKey: this.config.storageKey,
+                legacyStorage: this.config.storage,
+            });
+            this.restoreFromStore();
+        } else {
+            this.restoreQueue();
+        }
 
         // Start auto-flush timer
         this.startFlushTimer();
 
         // Setup unload handlers
         this.setupUnloadHandlers();
+        if (this.config.flushOnExit) {
+            this.setupExitHandler();
+        }
     }
 
     /**
      * Add an event to the queue
      */
     push(event: TrackingEvent): void {
+        // Sampled-out events don't count against the rate limit
+        if (!this.rateLimiter.sample(event)) {
+            logger.debug('Event sampled out:', event.eventName);
+            return;
+        }
+
         // Rate limiting check
-        if (!this.checkRateLimit()) {
+        if (!this.rateLimiter.allow(event.eventType)) {
             logger.warn('Rate limit exceeded, event dropped:', event.eventName);
             return;
         }
 
-        // Don't exceed max queue size
-        if (this.queue.length >= this.config.maxQueueSize) {
-            logger.warn('Queue full, dropping oldest event');
-            this.queue.shift();
+        if (!event.eventId) {
+            event.eventId = generateUUID();
         }
 
-        this.queue.push(event);
+        this.add(event);
         logger.debug('Event queued:', event.eventName, `(${this.queue.length} in queue)`);
 
         // Flush if batch size reached
@@ -73,32 +141,103 @@ export class EventQueue {
     }
 
     /**
-     * Check and enforce rate limiting
-     * @returns true if event is allowed, false if rate limited
+     * Accept events handed over by a follower tab
+     * Events already queued or recently delivered are skipped.
      */
-    private checkRateLimit(): boolean {
-        const now = Date.now();
-        
-        // Remove timestamps outside the window
-        this.eventTimestamps = this.eventTimestamps.filter(
-            ts => now - ts < RATE_LIMIT_WINDOW_MS
-        );
+    private receive(events: TrackingEvent[]): void {
+        const fresh = this.unique(events);
+        for (const event of fresh) {
+            this.add(event);
+        }
+        logger.debug(`Received ${fresh.length} events from another tab`);
 
-        // Check if under limit
-        if (this.eventTimestamps.length >= RATE_LIMIT_MAX_EVENTS) {
-            return false;
+        if (this.queue.length >= this.config.batchSize) {
+            this.flush();
         }
+    }
 
-        // Record this event
-        this.eventTimestamps.push(now);
-        return true;
+    /**
+     * Append an event
+     * With a store, events that don't fit in memory are kept in the store
+     * only and paged in as the queue drains; without one, the oldest event
+     * is dropped when the queue is full.
+     */
+    private add(event: TrackingEvent): void {
+        if (this.store && (this.spilled || this.queue.length >= this.config.maxQueueSize)) {
+            this.spilled = true;
+            this.spillCount++;
+            this.store.append([event]);
+            return;
+        }
+
+        // Don't exceed max queue size
+        if (this.queue.length >= this.config.maxQueueSize) {
+            logger.warn('Queue full, dropping oldest event');
+            this.queue.shift();
+        }
+
+        this.queue.push(event);
+        this.store?.append([event]);
+    }
+
+    /**
+     * Filter out events that are already queued or were recently delivered
+     */
+    private unique(events: TrackingEvent[]): TrackingEvent[] {
+        const seen = new Set(this.queue.map((event) => event.eventId));
+        return events.filter((event) => {
+            if (!event.eventId) {
+                event.eventId = generateUUID();
+            }
+            if (seen.has(event.eventId) || this.sentIds.has(event.eventId)) {
+                return false;
+            }
+            seen.add(event.eventId);
+            return true;
+        });
+    }
+
+    /**
+     * Remember delivered event IDs so late duplicates are dropped
+     */
+    private markSent(events: TrackingEvent[]): void {
+        for (const event of events) {
+            if (event.eventId) {
+                this.sentIds.add(event.eventId);
+            }
+        }
+        for (const id of this.sentIds) {
+            if (this.sentIds.size <= SENT_HISTORY_SIZE) break;
+            this.sentIds.delete(id);
+        }
     }
 
     /**
      * Flush the queue (send all events)
+     * In a follower tab the events are handed to the leader instead.
      */
     async flush(): Promise<void> {
-        if (this.isFlushing || this.queue.length === 0) {
+        if (this.isFlushing) {
+            return;
+        }
+
+        if (this.queue.length === 0) {
+            await this.pageIn();
+            if (this.queue.length === 0) return;
+        }
+
+        // Hold the flag while a hand-off waits for the leader, so a concurrent
+        // flush doesn't send the same events from this tab
+        this.isFlushing = true;
+        const handedOff = await this.handOffToLeader();
+        this.isFlushing = false;
+        if (handedOff) {
+            return;
+        }
+
+        // Backend is failing - wait for the circuit breaker cooldown
+        if (!this.transport.isAvailable()) {
+            logger.debug('Circuit open, flush paused');
             return;
         }
 
@@ -111,20 +250,38 @@ export class EventQueue {
         try {
             logger.debug(`Flushing ${events.length} events`);
 
-            // Clear persisted queue
-            this.persistQueue([]);
+            // Clear persisted copies (stored events stay until acknowledged)
+            if (!this.store) {
+                this.removePersisted(events);
+            }
 
             // Send to backend
             const result = await this.transport.sendEvents(events);
+            const { delivered, retry, rejected } = this.partition(events, result);
+
+            if (rejected.length > 0) {
+                this.reportRejected(rejected);
+            }
 
-            if (!result.success) {
+            if (retry.length > 0) {
                 // Re-queue events on failure (at the front)
-                logger.warn('Flush failed, re-queuing events');
-                this.queue.unshift(...events);
-                this.persistQueue(this.queue);
+                logger.warn(`Flush failed for ${retry.length} of ${events.length} events, re-queuing`);
+                this.queue.unshift(...retry);
+                if (!this.store) {
+                    this.persistQueue(this.queue);
+                }
             } else {
                 logger.debug('Flush successful');
             }
+
+            // Rejected events are final, so they leave storage too
+            const done = [...delivered, ...rejected.map((r) => r.event)];
+            if (done.length > 0) {
+                this.markSent(done);
+                await this.store?.remove(done);
+            }
+
+            await this.pageIn();
         } catch (error) {
             logger.error('Flush error:', error);
         } finally {
@@ -132,22 +289,184 @@ export class EventQueue {
         }
     }
 
+    /**
+     * Split a sent batch into delivered, retryable and rejected events.
+     * Without a structured response the batch is all-or-nothing. With one,
+     * events the backend did not mention count as delivered on success and
+     * as retryable on failure.
+     */
+    private partition(
+        events: TrackingEvent[],
+        result: TransportResult
+    ): { delivered: TrackingEvent[]; retry: TrackingEvent[]; rejected: RejectedEvent[] } {
+        if (!result.batch) {
+            return result.success
+                ? { delivered: events, retry: [], rejected: [] }
+                : { delivered: [], retry: events, rejected: [] };
+        }
+
+        const accepted = new Set(result.batch.accepted);
+        const retryable = new Set(result.batch.retryable);
+        const reasons = new Map(result.batch.rejected.map((r) => [r.index, r.reason]));
+
+        const delivered: TrackingEvent[] = [];
+        const retry: TrackingEvent[] = [];
+        const rejected: RejectedEvent[] = [];
+
+        events.forEach((event, index) => {
+            if (reasons.has(index)) {
+                rejected.push({ event, reason: reasons.get(index)! });
+            } else if (retryable.has(index)) {
+                retry.push(event);
+            } else if (accepted.has(index) || result.success) {
+                delivered.push(event);
+            } else {
+                retry.push(event);
+            }
+        });
+
+        return { delivered, retry, rejected };
+    }
+
+    /**
+     * Log rejected events and notify the rejection callback
+     */
+    private reportRejected(rejected: RejectedEvent[]): void {
+        for (const { event, reason } of rejected) {
+            logger.warn(`Event rejected by server: ${event.eventName} (${reason})`);
+        }
+
+        try {
+            this.config.onRejected(rejected);
+        } catch (error) {
+            logger.error('onEventsRejected callback error:', error);
+        }
+    }
+
     /**
      * Flush synchronously using sendBeacon (for page unload)
+     * The queue is split into beacon-sized chunks. A chunk the browser
+     * refuses to beacon falls back to a keepalive fetch; only chunks that
+     * could not be sent at all are re-persisted.
+     * Follower tabs send their own events here: the leader tab may be
+     * closing or frozen too, and a handed-off event would be lost with it.
      */
     flushSync(): void {
         if (this.queue.length === 0) return;
 
         const events = this.queue.splice(0, this.queue.length);
-        logger.debug(`Sync flushing ${events.length} events via beacon`);
-
-        const success = this.transport.sendBeacon(events);
+        const chunks = chunkEvents(events);
+        logger.debug(`Sync flushing ${events.length} events via beacon (${chunks.length} chunks)`);
+
+        const failed: TrackingEvent[] = [];
+        for (const chunk of chunks) {
+            if (this.transport.sendBeacon(chunk)) {
+                this.acknowledge(chunk);
+            } else if (!this.sendKeepalive(chunk)) {
+                failed.push(...chunk);
+            }
+        }
 
-        if (!success) {
+        if (failed.length > 0) {
             // Re-queue and persist for next page load
-            this.queue.unshift(...events);
-            this.persistQueue(this.queue);
+            this.queue.unshift(...failed);
+            if (!this.store) {
+                this.persistQueue(this.queue);
+            }
+        }
+    }
+
+    /**
+     * Flush via compressed beacons when the page is hidden.
+     * Events are persisted before the async compression step so that they
+     * survive if the page is discarded before the beacons go out.
+     * Like flushSync(), this never hands events to the leader tab.
+     */
+    private async flushHidden(): Promise<void> {
+        if (this.queue.length === 0) return;
+
+        const events = this.queue.splice(0, this.queue.length);
+        if (!this.store) {
+            this.persistQueue(events);
+        }
+
+        for (const chunk of chunkEvents(events)) {
+            if (await this.transport.sendBeaconCompressed(chunk)) {
+                this.acknowledge(chunk);
+            } else if (!this.sendKeepalive(chunk)) {
+                this.queue.unshift(...chunk);
+            }
+        }
+    }
+
+    /**
+     * Send a chunk with a keepalive fetch. The chunk stays persisted until
+     * the request confirms delivery, so it survives if the page goes away.
+     * @returns false if keepalive fetch is unavailable
+     */
+    private sendKeepalive(chunk: TrackingEvent[]): boolean {
+        const pending = this.transport.sendKeepalive(chunk);
+        if (!pending) return false;
+
+        if (!this.store) {
+            this.persistQueue(chunk);
+        }
+
+        pending.then((success) => {
+            if (success) {
+                this.acknowledge(chunk);
+            } else {
+                this.queue.unshift(...this.unique(chunk));
+            }
+        });
+        return true;
+    }
+
+    /**
+     * Mark events as delivered and drop their persisted copies
+     */
+    private acknowledge(events: TrackingEvent[]): void {
+        this.markSent(events);
+        if (this.store) {
+            this.store.remove(events);
+        } else {
+            this.removePersisted(events);
+        }
+    }
+
+    /**
+     * Hand the whole queue to the leader tab when this tab is a follower
+     * Events stay persisted (or in the offline store) until the leader
+     * delivers them, so a leader that closes first does not lose them; the
+     * next leader restores them. Without BroadcastChannel, the persisted
+     * queue is the only way over.
+     * @returns true if the leader took the events
+     */
+    private async handOffToLeader(): Promise<boolean> {
+        if (!this.coordinator || this.coordinator.isLeader || !this.coordinator.hasLeader) {
+            return false;
+        }
+
+        const events = this.queue.splice(0, this.queue.length);
+        if (this.coordinator.hasChannel) {
+            if (!this.store) {
+                this.persistQueue(events);
+            }
+            if (await this.coordinator.handOff(events)) {
+                return true;
+            }
+        } else if (this.store) {
+            logger.debug(`Left ${events.length} events in the offline store for the leader tab`);
+            return true;
+        } else if (this.config.offline.storage !== 'memory') {
+            this.persistQueue(events);
+            logger.debug(`Persisted ${events.length} events for the leader tab`);
+            return true;
         }
+
+        // No leader confirmed them: send them from this tab
+        this.queue.unshift(...this.unique(events));
+        return false;
     }
 
     /**
@@ -162,7 +481,11 @@ export class EventQueue {
      */
     clear(): void {
         this.queue = [];
-        this.persistQueue([]);
+        if (this.store) {
+            this.store.clear();
+        } else {
+            this.writePersisted([]);
+        }
     }
 
     /**
@@ -173,6 +496,14 @@ export class EventQueue {
             clearInterval(this.flushTimer);
             this.flushTimer = null;
         }
+        if (this.coordinator) {
+            this.coordinator.destroy();
+            this.coordinator = null;
+        }
+        if (this.exitHandler) {
+            getProcess()?.off('beforeExit', this.exitHandler);
+            this.exitHandler = null;
+        }
     }
 
     /**
@@ -184,8 +515,26 @@ export class EventQueue {
         }
 
         this.flushTimer = setInterval(() => {
+            // The leader picks up events persisted by follower tabs and by
+            // tabs that have closed
+            if (this.coordinator?.isLeader) {
+                if (this.store) {
+                    // Not mid-flush, or events in flight would be loaded again
+                    if (!this.isFlushing) {
+                        this.pageIn(true).then(() => this.flush());
+                    }
+                    return;
+                }
+                this.restoreQueue();
+            }
             this.flush();
         }, this.config.flushInterval);
+
+        // In Node.js the timer must not keep the process alive; the exit
+        // hook sends whatever is left
+        if (this.config.flushOnExit) {
+            (this.flushTimer as { unref?: () => void }).unref?.();
+        }
     }
 
     /**
@@ -199,10 +548,11 @@ export class EventQueue {
             this.flushSync();
         });
 
-        // Flush when page becomes hidden
+        // Flush when page becomes hidden (the page keeps running briefly,
+        // so the beacon body can be compressed)
         window.addEventListener('visibilitychange', () => {
             if (document.visibilityState === 'hidden') {
-                this.flushSync();
+                this.flushHidden();
             }
         });
 
@@ -213,31 +563,161 @@ export class EventQueue {
     }
 
     /**
-     * Persist queue to localStorage
+     * Flush when a Node.js process is about to exit.
+     * beforeExit fires again once the flush settles; the queue is left alone
+     * after a flush that made no progress so a failing backend can't keep
+     * the process alive.
+     */
+    private setupExitHandler(): void {
+        const proc = getProcess();
+        if (!proc) return;
+
+        let stalled = false;
+        this.exitHandler = () => {
+            if (this.queue.length === 0 || stalled) return;
+
+            const before = this.queue.length;
+            this.flush().then(() => {
+                stalled = this.queue.length >= before;
+            });
+        };
+        proc.on('beforeExit', this.exitHandler);
+    }
+
+    /**
+     * Persist events to the storage adapter
+     * Merges with events other tabs have persisted instead of overwriting them.
      */
     private persistQueue(events: TrackingEvent[]): void {
+        const merged = this.readPersisted();
+        const ids = new Set(merged.map((event) => event.eventId));
+        for (const event of events) {
+            if (!ids.has(event.eventId)) {
+                merged.push(event);
+                ids.add(event.eventId);
+            }
+        }
+        this.writePersisted(merged.slice(-this.config.maxQueueSize));
+    }
+
+    /**
+     * Remove events from the persisted queue, leaving other tabs' events
+     */
+    private removePersisted(events: TrackingEvent[]): void {
+        const persisted = this.readPersisted();
+        if (persisted.length === 0) return;
+
+        const ids = new Set(events.map((event) => event.eventId));
+        this.writePersisted(persisted.filter((event) => !ids.has(event.eventId)));
+    }
+
+    /**
+     * Read persisted events (v2 envelope, or the legacy plain array)
+     */
+    private readPersisted(): TrackingEvent[] {
+        if (this.config.offline.storage === 'memory') return [];
+
         try {
-            setLocalStorage(this.config.storageKey, JSON.stringify(events));
+            const stored = this.config.storage.getItem(this.config.storageKey);
+            return stored ? readBatch(JSON.parse(stored)) : [];
         } catch {
-            // Ignore storage errors
+            // Ignore parse errors
+            return [];
         }
     }
 
     /**
-     * Restore queue from localStorage
+     * Write events as a compact v2 envelope to save storage space
      */
-    private restoreQueue(): void {
+    private writePersisted(events: TrackingEvent[]): void {
+        if (this.config.offline.storage === 'memory') return;
+
         try {
-            const stored = getLocalStorage(this.config.storageKey);
-            if (stored) {
-                const events = JSON.parse(stored) as TrackingEvent[];
-                if (Array.isArray(events) && events.length > 0) {
-                    this.queue = events;
-                    logger.debug(`Restored ${events.length} events from storage`);
-                }
+            this.config.storage.setItem(this.config.storageKey, JSON.stringify(encodeBatch(events)));
+        } catch {
+            // Ignore storage errors
+        }
+    }
+
+    /**
+     * Restore queue from the IndexedDB or custom store
+     * Stored events go ahead of anything queued while the store was loading.
+     * Events beyond the in-memory limit stay in the store until paged in.
+     */
+    private restoreFromStore(): void {
+        const limit = this.config.maxQueueSize;
+        this.store!.load(limit).then((stored) => {
+            const events = this.unique(stored);
+            if (events.length > 0) {
+                this.queue.unshift(...events);
+                logger.debug(`Restored ${events.length} events from offline store`);
             }
+            if (this.queue.length > limit) {
+                this.queue.splice(limit);
+                this.spilled = true;
+            }
+            if (stored.length >= limit) {
+                this.spilled = true;
+            }
+        });
+    }
+
+    /**
+     * Move the oldest events that are only in the store into memory, up to
+     * the in-memory limit
+     * @param force - also look when this tab did not spill (events other tabs left)
+     */
+    private async pageIn(force = false): Promise<void> {
+        const room = this.config.maxQueueSize - this.queue.length;
+        if (!this.store || (!this.spilled && !force) || room <= 0) return;
+
+        // The events still in memory are the oldest stored ones, so they
+        // count towards the limit
+        const spillCount = this.spillCount;
+        const limit = this.config.maxQueueSize;
+        const stored = await this.store.load(limit);
+        const events = this.unique(stored);
+
+        const paged = events.slice(0, room);
+        if (paged.length > 0) {
+            this.queue.push(...paged);
+            logger.debug(`Paged in ${paged.length} events from offline store`);
+        }
+
+        // Everything stored is in memory now, unless more spilled meanwhile
+        if (stored.length < limit && events.length <= room && spillCount === this.spillCount) {
+            this.spilled = false;
+        }
+    }
+
+    /**
+     * Move events persisted under the unscoped key by earlier versions
+     */
+    private adoptLegacyQueue(): void {
+        if (this.config.offline.storage === 'memory') return;
+
+        try {
+            const stored = this.config.storage.getItem(STORAGE_KEYS.EVENT_QUEUE);
+            if (!stored) return;
+            this.persistQueue(readBatch(JSON.parse(stored)));
+            this.config.storage.removeItem(STORAGE_KEYS.EVENT_QUEUE);
         } catch {
             // Ignore parse errors
         }
     }
+
+    /**
+     * Restore queue from the storage adapter
+     * Events are deduplicated by ID against the queue and recent deliveries.
+     */
+    private restoreQueue(): void {
+        const events = this.unique(this.readPersisted());
+        if (events.length > 0) {
+            this.queue.unshift(...events);
+            if (this.queue.length > this.config.maxQueueSize) {
+                this.queue.splice(0, this.queue.length - this.config.maxQueueSize);
+            }
+            logger.debug(`Restored ${events.length} events from storage`);
+        }
+    }
 }
@@ -0,0 +1,149 @@
+/**
+ * Clianta SDK - Rate Limiter
+ * Per-event-type budgets, priority classes and deterministic sampling
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { EventPriority, RateLimitConfig, TrackingEvent } from '../types';
+import { hashString } from '../utils';
+
+/** Rate limit: max events per window */
+const DEFAULT_MAX_EVENTS = 100;
+/** Rate limit window in ms (1 minute) */
+const DEFAULT_WINDOW_MS = 60000;
+
+/** Default priority class per event type; unlisted types are 'normal' */
+export const DEFAULT_PRIORITIES: Record<string, EventPriority> = {
+    identify: 'critical',
+    alias: 'critical',
+    form_submit: 'high',
+    form_view: 'high',
+    form_interaction: 'high',
+    custom: 'high',
+    session_start: 'high',
+    session_end: 'high',
+    button_click: 'low',
+    scroll_depth: 'low',
+    engagement: 'low',
+    performance: 'low',
+    time_on_page: 'low',
+};
+
+/**
+ * Share of the global budget each class may use, counting itself and all
+ * lower classes. Lower classes run out first, so clicks and scroll can never
+ * consume the room reserved for forms and custom events. 'critical' events
+ * are not limited by the global budget at all.
+ */
+const PRIORITY_SHARE: Record<Exclude<EventPriority, 'critical'>, number> = {
+    low: 0.5,
+    normal: 0.8,
+    high: 1,
+};
+
+const PRIORITY_ORDER: EventPriority[] = ['low', 'normal', 'high', 'critical'];
+
+/**
+ * Sliding-window rate limiter with per-type budgets and priority classes
+ */
+export class RateLimiter {
+    private config: Required<RateLimitConfig>;
+    /** Timestamps of recently allowed events, by event type */
+    private timestamps = new Map<string, number[]>();
+
+    constructor(config: RateLimitConfig = {}) {
+        this.config = {
+            enabled: config.enabled ?? true,
+            maxEvents: config.maxEvents ?? DEFAULT_MAX_EVENTS,
+            windowMs: config.windowMs ?? DEFAULT_WINDOW_MS,
+            budgets: config.budgets ?? {},
+            priorities: { ...DEFAULT_PRIORITIES, ...config.priorities },
+            sampleRates: config.sampleRates ?? {},
+        };
+    }
+
+    /**
+     * Get the priority class of an event type
+     */
+    getPriority(eventType: string): EventPriority {
+        return this.config.priorities[eventType] ?? 'normal';
+    }
+
+    /**
+     * Decide whether a sampled event type keeps this event.
+     * Sampling is deterministic per visitor, so a visitor is either always or
+     * never sampled for a given type. Kept events record their sample rate.
+     * @returns false if the event is sampled out
+     */
+    sample(event: TrackingEvent): boolean {
+        const rate = this.config.sampleRates[event.eventType];
+        if (rate === undefined || rate >= 1) return true;
+        if (rate <= 0) return false;
+
+        const bucket = parseInt(hashString(`${event.visitorId}:${event.eventType}`), 36) % 10000;
+        if (bucket >= rate * 10000) return false;
+
+        event.sampleRate = rate;
+        return true;
+    }
+
+    /**
+     * Check and record an event against its type budget and priority class
+     * @returns true if event is allowed, false if rate limited
+     */
+    allow(eventType: string): boolean {
+        if (!this.config.enabled) return true;
+
+        const now = Date.now();
+        this.prune(now);
+
+        // Per-type budget
+        const budget = this.config.budgets[eventType];
+        const ofType = this.timestamps.get(eventType) ?? [];
+        if (budget !== undefined && ofType.length >= budget) {
+            return false;
+        }
+
+        // Global budget, shared by priority class
+        const priority = this.getPriority(eventType);
+        if (priority !== 'critical') {
+            const ceiling = Math.floor(this.config.maxEvents * PRIORITY_SHARE[priority]);
+            if (this.countUpTo(priority) >= ceiling) {
+                return false;
+            }
+        }
+
+        ofType.push(now);
+        this.timestamps.set(eventType, ofType);
+        return true;
+    }
+
+    /**
+     * Count events in the window of this priority class and all lower ones
+     */
+    private countUpTo(priority: EventPriority): number {
+        const maxRank = PRIORITY_ORDER.indexOf(priority);
+        let count = 0;
+        for (const [eventType, stamps] of this.timestamps) {
+            const rank = PRIORITY_ORDER.indexOf(this.getPriority(eventType));
+            if (rank <= maxRank) {
+                count += stamps.length;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * Remove timestamps outside the window
+     */
+    private prune(now: number): void {
+        for (const [eventType, stamps] of this.timestamps) {
+            const recent = stamps.filter((ts) => now - ts < this.config.windowMs);
+            if (recent.length > 0) {
+                this.timestamps.set(eventType, recent);
+            } else {
+                this.timestamps.delete(eventType);
+            }
+        }
+    }
+}
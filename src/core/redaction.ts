@@ -0,0 +1,149 @@
+/**
+ * Clianta SDK - PII Redaction
+ * Masks personal data in events before they leave the browser
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { PiiPattern, RedactionConfig, TrackingEvent } from '../types';
+import { hashString } from '../utils';
+
+/**
+ * Detection patterns, applied in this order so that e.g. a JWT is not
+ * partially matched as something else
+ */
+const PII_PATTERNS: [PiiPattern, RegExp][] = [
+    ['jwt', /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g],
+    // Also matches URL-encoded addresses (john%40example.com)
+    ['email', /[A-Za-z0-9._%+-]+(?:@|%40)[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g],
+    ['creditCard', /\b\d(?:[ -]?\d){12,18}\b/g],
+    // International format, or North American (555) 123-4567 / 555-123-4567
+    ['phone', /\+\d{1,3}[\s.-]?\(?\d{1,4}\)?(?:[\s.-]?\d{2,4}){2,4}|\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g],
+];
+
+/** Placeholder labels per pattern */
+const LABELS: Record<PiiPattern, string> = {
+    email: 'email',
+    phone: 'phone',
+    creditCard: 'card',
+    jwt: 'jwt',
+};
+
+/**
+ * Luhn checksum, so that long numeric IDs are not mistaken for card numbers
+ */
+function isLuhnValid(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (!value || typeof value !== 'object') return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Redactor - Scans event properties, URLs and referrers for personal data
+ */
+export class Redactor {
+    private enabled: boolean;
+    private mode: 'mask' | 'hash';
+    private patterns: [PiiPattern, RegExp][];
+    private queryPattern: RegExp | null;
+    private allowList: Set<string>;
+
+    constructor(config: RedactionConfig = {}) {
+        this.enabled = config.enabled !== false;
+        this.mode = config.mode ?? 'mask';
+
+        const enabledPatterns = config.patterns ?? PII_PATTERNS.map(([name]) => name);
+        this.patterns = PII_PATTERNS.filter(([name]) => enabledPatterns.includes(name));
+
+        const keys = (config.queryParams ?? []).map((key) => key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        this.queryPattern = keys.length ? new RegExp(`([?&#](?:${keys.join('|')})=)[^&#\\s]*`, 'gi') : null;
+
+        this.allowList = new Set(config.allowList ?? []);
+    }
+
+    /**
+     * Return a copy of the event with personal data replaced
+     */
+    redact(event: TrackingEvent): TrackingEvent {
+        if (!this.enabled) return event;
+
+        const redacted: TrackingEvent = {
+            ...event,
+            url: this.redactString(event.url),
+            properties: this.redactValue(event.properties, '', event.eventType) as Record<string, unknown>,
+        };
+        if (event.referrer) redacted.referrer = this.redactString(event.referrer);
+        if (event.utm) redacted.utm = this.redactValue(event.utm, null, event.eventType) as TrackingEvent['utm'];
+        if (event.attribution) {
+            redacted.attribution = this.redactValue(
+                event.attribution,
+                null,
+                event.eventType
+            ) as TrackingEvent['attribution'];
+        }
+        return redacted;
+    }
+
+    /**
+     * Replace configured query parameter values and detected personal data
+     */
+    redactString(value: string): string {
+        let result = value;
+        if (this.queryPattern) {
+            result = result.replace(this.queryPattern, (match, prefix: string) => {
+                return prefix + this.placeholder('redacted', match.slice(prefix.length));
+            });
+        }
+
+        for (const [name, pattern] of this.patterns) {
+            result = result.replace(pattern, (match) => {
+                if (name === 'creditCard' && !isLuhnValid(match.replace(/\D/g, ''))) {
+                    return match;
+                }
+                return this.placeholder(LABELS[name], match);
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Walk a value, redacting strings outside the allow-list
+     * @param path - property path for allow-list checks; null to skip them
+     */
+    private redactValue(value: unknown, path: string | null, eventType: string): unknown {
+        if (path && (this.allowList.has(path) || this.allowList.has(`${eventType}:${path}`))) {
+            return value;
+        }
+        if (typeof value === 'string') {
+            return this.redactString(value);
+        }
+        if (Array.isArray(value)) {
+            return value.map((item) => this.redactValue(item, path, eventType));
+        }
+        if (isPlainObject(value)) {
+            const result: Record<string, unknown> = {};
+            for (const [key, item] of Object.entries(value)) {
+                const childPath = path === null ? null : path ? `${path}.${key}` : key;
+                result[key] = this.redactValue(item, childPath, eventType);
+            }
+            return result;
+        }
+        return value;
+    }
+
+    private placeholder(label: string, match: string): string {
+        return this.mode === 'hash' ? `[${label}:${hashString(match)}]` : `[${label}]`;
+    }
+}
@@ -0,0 +1,211 @@
+/**
+ * Clianta SDK - Referrer Classification
+ * Maps referrers, UTMs and click IDs to source, medium and channel
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { Channel, ClickIds, PageTraffic, ReferrerRule, TrafficSource, UTMParams } from '../types';
+import { getUTMParams } from '../utils';
+
+/**
+ * Built-in referrer rules, checked in order (more specific hosts first).
+ * A host ending in "." matches any TLD ("google." → google.com, google.co.uk);
+ * other hosts match the domain and its subdomains.
+ */
+export const DEFAULT_REFERRER_RULES: ReferrerRule[] = [
+    // AI assistants
+    { hosts: ['chatgpt.com', 'chat.openai.com'], source: 'chatgpt', medium: 'ai', channel: 'ai' },
+    { hosts: ['perplexity.ai'], source: 'perplexity', medium: 'ai', channel: 'ai' },
+    { hosts: ['claude.ai'], source: 'claude', medium: 'ai', channel: 'ai' },
+    { hosts: ['gemini.google.com', 'bard.google.com'], source: 'gemini', medium: 'ai', channel: 'ai' },
+    { hosts: ['copilot.microsoft.com'], source: 'copilot', medium: 'ai', channel: 'ai' },
+    { hosts: ['chat.deepseek.com'], source: 'deepseek', medium: 'ai', channel: 'ai' },
+
+    // Email clients
+    { hosts: ['mail.google.com'], source: 'gmail', medium: 'email', channel: 'email' },
+    {
+        hosts: ['outlook.live.com', 'outlook.office.com', 'outlook.office365.com'],
+        source: 'outlook',
+        medium: 'email',
+        channel: 'email',
+    },
+    { hosts: ['mail.yahoo.com'], source: 'yahoo_mail', medium: 'email', channel: 'email' },
+    { hosts: ['mail.proton.me'], source: 'proton_mail', medium: 'email', channel: 'email' },
+    { hosts: ['mail.aol.com'], source: 'aol_mail', medium: 'email', channel: 'email' },
+
+    // Social networks
+    { hosts: ['facebook.com', 'fb.com', 'fb.me'], source: 'facebook', medium: 'social', channel: 'social' },
+    { hosts: ['instagram.com'], source: 'instagram', medium: 'social', channel: 'social' },
+    { hosts: ['linkedin.com', 'lnkd.in'], source: 'linkedin', medium: 'social', channel: 'social' },
+    { hosts: ['twitter.com', 'x.com', 't.co'], source: 'twitter', medium: 'social', channel: 'social' },
+    { hosts: ['reddit.com'], source: 'reddit', medium: 'social', channel: 'social' },
+    { hosts: ['youtube.com', 'youtu.be'], source: 'youtube', medium: 'social', channel: 'social' },
+    { hosts: ['pinterest.'], source: 'pinterest', medium: 'social', channel: 'social' },
+    { hosts: ['tiktok.com'], source: 'tiktok', medium: 'social', channel: 'social' },
+    { hosts: ['threads.net'], source: 'threads', medium: 'social', channel: 'social' },
+    { hosts: ['bsky.app'], source: 'bluesky', medium: 'social', channel: 'social' },
+    { hosts: ['news.ycombinator.com'], source: 'hackernews', medium: 'social', channel: 'social' },
+
+    // Search engines
+    { hosts: ['google.'], source: 'google', medium: 'organic', channel: 'organic' },
+    { hosts: ['bing.com'], source: 'bing', medium: 'organic', channel: 'organic' },
+    { hosts: ['search.yahoo.', 'yahoo.'], source: 'yahoo', medium: 'organic', channel: 'organic' },
+    { hosts: ['duckduckgo.com'], source: 'duckduckgo', medium: 'organic', channel: 'organic' },
+    { hosts: ['search.brave.com'], source: 'brave', medium: 'organic', channel: 'organic' },
+    { hosts: ['ecosia.org'], source: 'ecosia', medium: 'organic', channel: 'organic' },
+    { hosts: ['baidu.com'], source: 'baidu', medium: 'organic', channel: 'organic' },
+    { hosts: ['yandex.'], source: 'yandex', medium: 'organic', channel: 'organic' },
+    { hosts: ['naver.com'], source: 'naver', medium: 'organic', channel: 'organic' },
+];
+
+/** utm_medium values by channel */
+const MEDIUM_CHANNELS: [RegExp, Channel][] = [
+    [/^(cpc|ppc|paid.*|cpm|cpv|cpa|display|banner|retargeting|affiliate)$/i, 'paid'],
+    [/^(e-?mail|newsletter)$/i, 'email'],
+    [/^(social|social-network|social-media|sm)$/i, 'social'],
+    [/^organic$/i, 'organic'],
+    [/^(ai|llm)$/i, 'ai'],
+    [/^referral$/i, 'referral'],
+];
+
+/** URL parameters of ad click IDs */
+const CLICK_ID_PARAMS: Record<keyof ClickIds, string> = {
+    gclid: 'gclid',
+    fbclid: 'fbclid',
+    msclkid: 'msclkid',
+    liFatId: 'li_fat_id',
+};
+
+/** Ad click IDs, which imply paid traffic from their platform */
+const CLICK_ID_SOURCES: [keyof ClickIds, string][] = [
+    ['gclid', 'google'],
+    ['msclkid', 'bing'],
+    ['liFatId', 'linkedin'],
+];
+
+function hostMatches(host: string, pattern: string): boolean {
+    const p = pattern.toLowerCase();
+    return p.endsWith('.')
+        ? host.startsWith(p) || host.includes('.' + p)
+        : host === p || host.endsWith('.' + p);
+}
+
+/**
+ * Find the rule for a referrer host, or a utm_source value such as
+ * "chatgpt.com" or "linkedin"
+ * @param rules - custom rules, checked before the built-in ones
+ */
+export function findReferrerRule(hostOrSource: string, rules: ReferrerRule[] = []): ReferrerRule | null {
+    const value = hostOrSource.toLowerCase().replace(/^www\./, '');
+    return (
+        [...rules, ...DEFAULT_REFERRER_RULES].find(
+            (rule) => rule.source === value || rule.hosts.some((pattern) => hostMatches(value, pattern))
+        ) ?? null
+    );
+}
+
+/**
+ * Classify traffic by click IDs, then UTMs, then the referrer host
+ * @param rules - custom referrer rules, checked before the built-in ones
+ */
+export function classifyTraffic(
+    input: {
+        utm?: UTMParams;
+        clickIds?: ClickIds;
+        referrerDomain?: string;
+    },
+    rules: ReferrerRule[] = []
+): TrafficSource {
+    const { utm = {}, clickIds = {}, referrerDomain } = input;
+    const withReferrer = (source: TrafficSource): TrafficSource =>
+        referrerDomain ? { ...source, referrerDomain } : source;
+
+    const utmMedium = utm.utmMedium?.toLowerCase();
+    const utmSource = utm.utmSource?.toLowerCase();
+    const mediumChannel = utmMedium ? MEDIUM_CHANNELS.find(([pattern]) => pattern.test(utmMedium))?.[1] : undefined;
+
+    for (const [key, source] of CLICK_ID_SOURCES) {
+        if (clickIds[key]) {
+            return withReferrer({ source: utmSource ?? source, medium: utmMedium ?? 'cpc', channel: 'paid' });
+        }
+    }
+
+    if (utmSource || utmMedium) {
+        const host = utmSource || referrerDomain;
+        const rule = host ? findReferrerRule(host, rules) : null;
+        return withReferrer({
+            source: utmSource ?? rule?.source ?? referrerDomain ?? '(direct)',
+            medium: utmMedium ?? rule?.medium ?? '(none)',
+            channel: mediumChannel ?? rule?.channel ?? 'referral',
+        });
+    }
+
+    if (clickIds.fbclid) {
+        return withReferrer({ source: 'facebook', medium: 'social', channel: 'social' });
+    }
+
+    if (referrerDomain) {
+        const rule = findReferrerRule(referrerDomain, rules);
+        return withReferrer(
+            rule
+                ? { source: rule.source, medium: rule.medium, channel: rule.channel }
+                : { source: referrerDomain, medium: 'referral', channel: 'referral' }
+        );
+    }
+
+    return { source: '(direct)', medium: '(none)', channel: 'direct' };
+}
+
+/**
+ * Extract ad click IDs from a query string
+ */
+export function getClickIds(search: string): ClickIds {
+    const params = new URLSearchParams(search);
+    const clickIds: ClickIds = {};
+    for (const [key, param] of Object.entries(CLICK_ID_PARAMS) as [keyof ClickIds, string][]) {
+        const value = params.get(param);
+        if (value) clickIds[key] = value;
+    }
+    return clickIds;
+}
+
+/**
+ * Hostname of a referrer URL, without a leading "www."
+ */
+export function getReferrerDomain(referrer: string): string | undefined {
+    try {
+        return new URL(referrer).hostname.replace(/^www\./, '') || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function compact<T extends object>(value: T): T | undefined {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined && v !== '');
+    return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+/**
+ * Classify how the visitor arrived on the current page
+ * @param rules - custom referrer rules, checked before the built-in ones
+ * @returns null for navigation within the site, which is not a new arrival
+ */
+export function getPageTraffic(rules: ReferrerRule[] = []): PageTraffic | null {
+    if (typeof window === 'undefined') return null;
+
+    const utm = compact(getUTMParams() as UTMParams);
+    const clickIds = compact(getClickIds(window.location.search));
+    const referrer = typeof document !== 'undefined' ? document.referrer : '';
+    let referrerDomain = referrer ? getReferrerDomain(referrer) : undefined;
+
+    // Internal navigation
+    if (referrerDomain === window.location.hostname.replace(/^www\./, '')) {
+        if (!utm && !clickIds) return null;
+        referrerDomain = undefined;
+    }
+
+    const traffic: PageTraffic = classifyTraffic({ utm, clickIds, referrerDomain }, rules);
+    if (utm) traffic.utm = utm;
+    if (clickIds) traffic.clickIds = clickIds;
+    return traffic;
+}
@@ -0,0 +1,66 @@
+/**
+ * Clianta SDK - Event Schema
+ * Runtime checks for the event catalogue
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { EventSchema, EventSchemaConfig, PropertyRule } from '../types';
+
+/**
+ * Declare an event schema, keeping its literal types so that
+ * `InferEventCatalog<typeof schema>` can type `track()`
+ *
+ * @example
+ * const schema = defineEventSchema({
+ *   'Signup Completed': { plan: ['free', 'pro'], seats: 'number', coupon: 'string?' },
+ * });
+ * const tracker = clianta<InferEventCatalog<typeof schema>>('workspace-id', {
+ *   eventSchema: { events: schema },
+ * });
+ */
+export function defineEventSchema<const S extends EventSchema>(schema: S): S {
+    return schema;
+}
+
+/**
+ * Check an event's properties against the schema
+ * @returns problems found; empty for valid events and events not in the schema
+ */
+export function validateEvent(
+    config: EventSchemaConfig,
+    eventType: string,
+    eventName: string,
+    properties: Record<string, unknown>
+): string[] {
+    const rules = config.events?.[eventName];
+    if (!rules) {
+        return config.strict && eventType === 'custom' ? [`unknown event "${eventName}"`] : [];
+    }
+
+    const errors: string[] = [];
+    for (const [key, rule] of Object.entries(rules)) {
+        const error = checkProperty(key, rule, properties[key]);
+        if (error) errors.push(error);
+    }
+    return errors;
+}
+
+/**
+ * Check one property against its rule
+ */
+function checkProperty(key: string, rule: PropertyRule, value: unknown): string | null {
+    if (Array.isArray(rule)) {
+        if (value === undefined) return `missing required property "${key}"`;
+        return rule.includes(value as string) ? null : `"${key}" should be one of ${rule.join(', ')}`;
+    }
+
+    const optional = (rule as string).endsWith('?');
+    const type = optional ? (rule as string).slice(0, -1) : (rule as string);
+    if (value === undefined || value === null) {
+        return optional ? null : `missing required property "${key}"`;
+    }
+
+    const actual = Array.isArray(value) ? 'array' : typeof value;
+    if (type === 'any' || actual === type) return null;
+    return `"${key}" should be ${type}, got ${actual}`;
+}
@@ -0,0 +1,249 @@
+/**
+ * Clianta SDK - Session Manager
+ * Activity-driven sessions that rotate on inactivity, at midnight, and on a
+ * campaign change
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type {
+    PageTraffic,
+    ReferrerRule,
+    SessionChange,
+    SessionChangeReason,
+    SessionContext,
+    StorageAdapter,
+    UrlRulesConfig,
+} from '../types';
+import { STORAGE_KEYS } from './config';
+import { classifyTraffic, getPageTraffic } from './referrer';
+import { sanitizeUrl } from './urlRules';
+import { getOrCreateSessionId, getStorage } from '../utils';
+
+/** Sessions at least this long count as engaged */
+const ENGAGED_DURATION = 10 * 1000;
+
+/** Event types that show the visitor interacted with the page */
+const ENGAGEMENT_EVENTS = new Set(['engagement', 'form_submit', 'button_click', 'scroll_depth']);
+
+/** Activity counters of the current session, kept in session-scoped storage */
+interface SessionStats {
+    pageCount: number;
+    eventCount: number;
+    interacted: boolean;
+}
+
+/** How a session that ended went, sent as the session_end event */
+export interface SessionSummary {
+    sessionId: string;
+    /** Seconds between the session start and its last activity */
+    duration: number;
+    pageCount: number;
+    eventCount: number;
+    /** Lasted 10 seconds or more, viewed 2+ pages, or had an interaction */
+    engaged: boolean;
+    /** ISO timestamp of the last activity */
+    endedAt: string;
+}
+
+/** A session rotation: the session that ended (if known) and the new one */
+export interface SessionTransition {
+    ended: SessionSummary | null;
+    started: SessionChange;
+}
+
+/**
+ * Session Manager - Tracks the current session and its activity
+ * Rotation is only checked when there is activity, so an idle tab keeps its
+ * session until the next event arrives and then starts a new one.
+ */
+export class SessionManager {
+    private timeout: number;
+    private storage: StorageAdapter;
+    private referrerRules: ReferrerRule[];
+    private urlRules: UrlRulesConfig;
+    private sessionId = '';
+    private context: SessionContext | null = null;
+    private stats: SessionStats = { pageCount: 0, eventCount: 0, interacted: false };
+
+    /**
+     * @param storage - session-scoped storage
+     * @param referrerRules - custom referrer rules, for the campaign check
+     * @param urlRules - rules applied to the landing page
+     */
+    constructor(
+        timeout: number,
+        storage: StorageAdapter = getStorage('session'),
+        referrerRules: ReferrerRule[] = [],
+        urlRules: UrlRulesConfig = {}
+    ) {
+        this.timeout = timeout;
+        this.storage = storage;
+        this.referrerRules = referrerRules;
+        this.urlRules = urlRules;
+    }
+
+    /**
+     * Resume the stored session or start a new one for this page load
+     * @param linkedId - session adopted from a linked domain; it keeps the
+     *   context it started with there, so no transition is reported
+     */
+    start(linkedId?: string, now = Date.now()): SessionTransition | null {
+        if (linkedId) {
+            this.sessionId = getOrCreateSessionId(this.timeout, linkedId, now, this.storage);
+            this.context = null;
+            this.stats = { pageCount: 0, eventCount: 0, interacted: false };
+            this.saveStats();
+            return null;
+        }
+
+        this.sessionId = this.storage.getItem(STORAGE_KEYS.SESSION_ID) ?? '';
+        this.context = this.loadContext();
+        this.stats = this.loadStats();
+        return this.refresh(getPageTraffic(this.referrerRules), now);
+    }
+
+    /**
+     * Record activity, rotating the session first if it has lapsed
+     * Page views also start a new session when they carry a new campaign.
+     */
+    touch(eventType: string, now = Date.now()): SessionTransition | null {
+        const traffic = eventType === 'page_view' ? getPageTraffic(this.referrerRules) : null;
+        const transition = this.refresh(traffic, now);
+
+        this.stats.eventCount++;
+        if (eventType === 'page_view') this.stats.pageCount++;
+        if (ENGAGEMENT_EVENTS.has(eventType)) this.stats.interacted = true;
+        this.saveStats();
+
+        return transition;
+    }
+
+    /**
+     * Drop the stored session and start a new one (logout / data deletion)
+     */
+    reset(now = Date.now()): SessionTransition {
+        return this.rotate('reset', null, getPageTraffic(this.referrerRules), now);
+    }
+
+    getId(): string {
+        return this.sessionId;
+    }
+
+    getContext(): SessionContext | null {
+        return this.context;
+    }
+
+    /**
+     * Start a new session when the current one has lapsed, otherwise
+     * refresh its last activity
+     */
+    private refresh(traffic: PageTraffic | null, now: number): SessionTransition | null {
+        const lastActivity = parseInt(this.storage.getItem(STORAGE_KEYS.SESSION_TIMESTAMP) || '0', 10);
+        const reason = this.getRotationReason(lastActivity, traffic, now);
+
+        if (!reason) {
+            this.sessionId = getOrCreateSessionId(this.timeout, undefined, now, this.storage);
+            return null;
+        }
+
+        const ended = this.sessionId ? this.summarize(lastActivity) : null;
+        return this.rotate(reason, ended, traffic, now);
+    }
+
+    private getRotationReason(
+        lastActivity: number,
+        traffic: PageTraffic | null,
+        now: number
+    ): SessionChangeReason | null {
+        if (!this.sessionId) return 'new';
+        if (now - lastActivity > this.timeout) return 'timeout';
+        if (new Date(lastActivity).toDateString() !== new Date(now).toDateString()) return 'midnight';
+        if (this.context && traffic && (traffic.utm || traffic.clickIds) && isNewCampaign(this.context, traffic)) {
+            return 'campaign';
+        }
+        return null;
+    }
+
+    private rotate(
+        reason: SessionChangeReason,
+        ended: SessionSummary | null,
+        traffic: PageTraffic | null,
+        now: number
+    ): SessionTransition {
+        const previousSessionId = this.sessionId || null;
+
+        // getOrCreateSessionId only expires on inactivity, so clear the ID
+        // to force a new one for the other reasons
+        this.storage.removeItem(STORAGE_KEYS.SESSION_ID);
+        this.sessionId = getOrCreateSessionId(this.timeout, undefined, now, this.storage);
+
+        const { source, medium, channel, referrerDomain, utm }: PageTraffic = traffic ?? classifyTraffic({}, this.referrerRules);
+        this.context = {
+            source,
+            medium,
+            channel,
+            ...(referrerDomain ? { referrerDomain } : {}),
+            ...(utm?.utmCampaign ? { campaign: utm.utmCampaign } : {}),
+            landingPage: typeof window !== 'undefined' ? sanitizeUrl(window.location.href, this.urlRules) : '',
+            startedAt: new Date(now).toISOString(),
+        };
+        this.storage.setItem(STORAGE_KEYS.SESSION_CONTEXT, JSON.stringify(this.context));
+
+        this.stats = { pageCount: 0, eventCount: 0, interacted: false };
+        this.saveStats();
+
+        return {
+            ended,
+            started: { sessionId: this.sessionId, previousSessionId, reason, context: this.context },
+        };
+    }
+
+    private summarize(lastActivity: number): SessionSummary {
+        const startedAt = this.context ? new Date(this.context.startedAt).getTime() : lastActivity;
+        const duration = Math.max(0, lastActivity - startedAt);
+        const { pageCount, eventCount, interacted } = this.stats;
+
+        return {
+            sessionId: this.sessionId,
+            duration: Math.floor(duration / 1000),
+            pageCount,
+            eventCount,
+            engaged: interacted || pageCount >= 2 || duration >= ENGAGED_DURATION,
+            endedAt: new Date(lastActivity).toISOString(),
+        };
+    }
+
+    private loadContext(): SessionContext | null {
+        try {
+            const stored = this.storage.getItem(STORAGE_KEYS.SESSION_CONTEXT);
+            return stored ? (JSON.parse(stored) as SessionContext) : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private loadStats(): SessionStats {
+        try {
+            const stored = this.storage.getItem(STORAGE_KEYS.SESSION_STATS);
+            if (stored) return JSON.parse(stored) as SessionStats;
+        } catch {
+            // Fall through to empty stats
+        }
+        return { pageCount: 0, eventCount: 0, interacted: false };
+    }
+
+    private saveStats(): void {
+        this.storage.setItem(STORAGE_KEYS.SESSION_STATS, JSON.stringify(this.stats));
+    }
+}
+
+/**
+ * Whether a page's campaign differs from the one the session started with
+ */
+function isNewCampaign(context: SessionContext, traffic: PageTraffic): boolean {
+    return (
+        traffic.source !== context.source ||
+        traffic.medium !== context.medium ||
+        traffic.utm?.utmCampaign !== context.campaign
+    );
+}
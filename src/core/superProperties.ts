@@ -0,0 +1,93 @@
+/**
+ * Clianta SDK - Super Properties
+ * Properties registered once and merged into every tracked event
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { RegisterOptions, StorageAdapter } from '../types';
+import { STORAGE_KEYS } from './config';
+import { logger } from './logger';
+import { getStorage } from '../utils';
+
+/**
+ * Super Properties - Registered event properties
+ * Persisted properties are restored on the next page load; the others last
+ * as long as the tracker.
+ */
+export class SuperProperties {
+    private storage: StorageAdapter;
+    private memory: Record<string, unknown> = {};
+    private persisted: Record<string, unknown>;
+
+    constructor(storage: StorageAdapter = getStorage()) {
+        this.storage = storage;
+        this.persisted = this.load();
+    }
+
+    /**
+     * Register properties, replacing any registered under the same keys
+     */
+    register(properties: Record<string, unknown>, options: RegisterOptions = {}): void {
+        const [target, other] = options.persist ? [this.persisted, this.memory] : [this.memory, this.persisted];
+        for (const [key, value] of Object.entries(properties)) {
+            target[key] = value;
+            delete other[key];
+        }
+        this.save();
+    }
+
+    /**
+     * Register properties whose keys are not registered yet
+     */
+    registerOnce(properties: Record<string, unknown>, options: RegisterOptions = {}): void {
+        const registered = this.getAll();
+        const unset = Object.fromEntries(Object.entries(properties).filter(([key]) => !(key in registered)));
+        this.register(unset, options);
+    }
+
+    /**
+     * Remove a registered property
+     */
+    unregister(key: string): void {
+        delete this.memory[key];
+        delete this.persisted[key];
+        this.save();
+    }
+
+    /**
+     * All registered properties
+     */
+    getAll(): Record<string, unknown> {
+        return { ...this.persisted, ...this.memory };
+    }
+
+    /**
+     * Remove all registered properties (reset / data deletion)
+     */
+    clear(): void {
+        this.memory = {};
+        this.persisted = {};
+        this.storage.removeItem(STORAGE_KEYS.SUPER_PROPERTIES);
+    }
+
+    private load(): Record<string, unknown> {
+        try {
+            const stored = this.storage.getItem(STORAGE_KEYS.SUPER_PROPERTIES);
+            return stored ? (JSON.parse(stored) as Record<string, unknown>) : {};
+        } catch {
+            return {};
+        }
+    }
+
+    private save(): void {
+        if (Object.keys(this.persisted).length === 0) {
+            this.storage.removeItem(STORAGE_KEYS.SUPER_PROPERTIES);
+            return;
+        }
+        try {
+            this.storage.setItem(STORAGE_KEYS.SUPER_PROPERTIES, JSON.stringify(this.persisted));
+        } catch (error) {
+            logger.warn('Failed to persist super properties:', error);
+        }
+    }
+}
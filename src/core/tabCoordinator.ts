@@ -0,0 +1,290 @@
+/**
+ * Clianta SDK - Tab Coordinator
+ * Elects a single leader tab to flush the event queue for all open tabs
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { TrackingEvent } from '../types';
+import { logger } from './logger';
+import { generateUUID, getLocalStorage, setLocalStorage } from '../utils';
+
+export const CHANNEL_NAME = 'clianta_queue';
+/** How often the leader announces itself / renews its lock */
+const HEARTBEAT_INTERVAL = 1000;
+/** How long without a heartbeat before followers elect a new leader */
+const LEADER_TIMEOUT = 3000;
+/**
+ * How long a freshly opened tab waits for an existing leader; longer than
+ * the heartbeat interval so that a live leader is always heard first
+ */
+const INITIAL_ELECTION_DELAY = 1500;
+/** How long a follower waits for the leader to confirm handed-off events */
+const ACK_TIMEOUT = 1000;
+
+type CoordinatorMessage =
+    | { type: 'heartbeat'; tabId: string }
+    | { type: 'resign'; tabId: string }
+    | { type: 'events'; tabId: string; id: string; events: TrackingEvent[] }
+    | { type: 'ack'; tabId: string; id: string };
+
+interface LeaderLock {
+    tabId: string;
+    expires: number;
+}
+
+export interface TabCoordinatorOptions {
+    /** localStorage key used for the lock when BroadcastChannel is unavailable */
+    lockKey: string;
+
+    /** BroadcastChannel name (default: 'clianta_queue') */
+    channelName?: string;
+
+    /** Called on the leader when a follower hands over events */
+    onEvents: (events: TrackingEvent[]) => void;
+
+    /** Called when this tab gains or loses leadership */
+    onLeadershipChange?: (isLeader: boolean) => void;
+}
+
+/**
+ * Leader election between tabs.
+ * Uses BroadcastChannel heartbeats when available, otherwise a lease lock in
+ * localStorage. Without either (e.g. Node.js) the single instance leads.
+ */
+export class TabCoordinator {
+    readonly tabId = generateUUID();
+    private options: TabCoordinatorOptions;
+    private channel: BroadcastChannel | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private leader = false;
+    private leaderId: string | null = null;
+    private lastHeartbeat: number;
+    /** Hand-offs waiting for the leader's acknowledgement, by message ID */
+    private pendingAcks = new Map<string, (acknowledged: boolean) => void>();
+    private pagehideHandler: (() => void) | null = null;
+
+    constructor(options: TabCoordinatorOptions) {
+        this.options = options;
+        this.lastHeartbeat = Date.now() - LEADER_TIMEOUT + INITIAL_ELECTION_DELAY;
+
+        if (typeof BroadcastChannel !== 'undefined') {
+            try {
+                this.channel = new BroadcastChannel(options.channelName ?? CHANNEL_NAME);
+                this.channel.onmessage = (e: MessageEvent<CoordinatorMessage>) => this.handleMessage(e.data);
+            } catch {
+                this.channel = null;
+            }
+        }
+
+        if (!this.channel && typeof localStorage === 'undefined') {
+            this.setLeader(true);
+            return;
+        }
+
+        this.tick();
+        this.timer = setInterval(() => this.tick(), HEARTBEAT_INTERVAL);
+
+        // A closing tab never gets destroyed, so step down as the page goes
+        // away rather than leaving followers to wait out the leader timeout
+        if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+            this.pagehideHandler = () => this.resign();
+            window.addEventListener('pagehide', this.pagehideHandler);
+        }
+    }
+
+    /**
+     * Whether this tab is currently the leader
+     */
+    get isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * Whether another live tab is known to be the leader
+     */
+    get hasLeader(): boolean {
+        if (this.leader) return false;
+        if (this.channel) {
+            return this.leaderId !== null && Date.now() - this.lastHeartbeat <= LEADER_TIMEOUT;
+        }
+        const lock = this.readLock();
+        return !!lock && lock.tabId !== this.tabId && lock.expires > Date.now();
+    }
+
+    /**
+     * Whether events can be handed over by message; without a channel the
+     * leader reads them from the shared persisted queue instead
+     */
+    get hasChannel(): boolean {
+        return this.channel !== null;
+    }
+
+    /**
+     * Hand events to the leader tab
+     * @returns whether the leader confirmed it has taken the events; false if
+     *   there is no channel or live leader, or no confirmation arrives in time
+     */
+    handOff(events: TrackingEvent[]): Promise<boolean> {
+        if (!this.channel || !this.hasLeader || events.length === 0) {
+            return Promise.resolve(false);
+        }
+
+        const id = generateUUID();
+        return new Promise((resolve) => {
+            const timer = setTimeout(() => settle(false), ACK_TIMEOUT);
+            const settle = (acknowledged: boolean): void => {
+                clearTimeout(timer);
+                this.pendingAcks.delete(id);
+                if (acknowledged) {
+                    logger.debug(`Handed ${events.length} events to leader tab`);
+                } else {
+                    logger.warn('Leader tab did not confirm handed-off events');
+                }
+                resolve(acknowledged);
+            };
+            this.pendingAcks.set(id, settle);
+
+            try {
+                this.post({ type: 'events', tabId: this.tabId, id, events });
+            } catch (error) {
+                logger.warn('Failed to hand events to leader tab:', error);
+                settle(false);
+            }
+        });
+    }
+
+    /**
+     * Step down and stop coordinating
+     */
+    destroy(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        if (this.pagehideHandler) {
+            window.removeEventListener('pagehide', this.pagehideHandler);
+            this.pagehideHandler = null;
+        }
+
+        this.resign();
+        for (const settle of [...this.pendingAcks.values()]) {
+            settle(false);
+        }
+
+        if (this.channel) {
+            this.channel.close();
+            this.channel = null;
+        }
+    }
+
+    /**
+     * Give up leadership so another tab can take over at once
+     */
+    private resign(): void {
+        if (this.leader) {
+            if (this.channel) {
+                this.post({ type: 'resign', tabId: this.tabId });
+            } else {
+                const lock = this.readLock();
+                if (lock?.tabId === this.tabId) {
+                    try {
+                        localStorage.removeItem(this.options.lockKey);
+                    } catch {
+                        // Ignore
+                    }
+                }
+            }
+            // Give the followers a full timeout to elect a successor before
+            // this tab would claim the lead again
+            this.lastHeartbeat = Date.now();
+        }
+        this.leader = false;
+        this.leaderId = null;
+    }
+
+    /**
+     * Heartbeat / election step
+     */
+    private tick(): void {
+        if (this.channel) {
+            if (this.leader) {
+                this.post({ type: 'heartbeat', tabId: this.tabId });
+            } else if (Date.now() - this.lastHeartbeat > LEADER_TIMEOUT) {
+                logger.debug('No leader tab found, taking over queue flushing');
+                this.setLeader(true);
+                this.post({ type: 'heartbeat', tabId: this.tabId });
+            }
+            return;
+        }
+
+        // localStorage lease lock fallback
+        const now = Date.now();
+        const lock = this.readLock();
+        if (!lock || lock.expires < now || lock.tabId === this.tabId) {
+            setLocalStorage(
+                this.options.lockKey,
+                JSON.stringify({ tabId: this.tabId, expires: now + LEADER_TIMEOUT })
+            );
+            // Read back: another tab may have written in between
+            this.setLeader(this.readLock()?.tabId === this.tabId);
+        } else {
+            this.setLeader(false);
+        }
+    }
+
+    /**
+     * Handle a message from another tab
+     */
+    private handleMessage(message: CoordinatorMessage): void {
+        if (!message || message.tabId === this.tabId) return;
+
+        switch (message.type) {
+            case 'heartbeat':
+                // Two leaders: the lower tab ID wins
+                if (this.leader && message.tabId > this.tabId) return;
+                this.leaderId = message.tabId;
+                this.lastHeartbeat = Date.now();
+                this.setLeader(false);
+                break;
+            case 'resign':
+                if (this.leaderId === message.tabId) {
+                    this.leaderId = null;
+                    this.lastHeartbeat = 0;
+                    this.tick();
+                }
+                break;
+            case 'events':
+                if (this.leader) {
+                    this.options.onEvents(message.events);
+                    this.post({ type: 'ack', tabId: this.tabId, id: message.id });
+                }
+                break;
+            case 'ack':
+                this.pendingAcks.get(message.id)?.(true);
+                break;
+        }
+    }
+
+    private setLeader(isLeader: boolean): void {
+        if (this.leader === isLeader) return;
+        this.leader = isLeader;
+        if (isLeader) {
+            this.leaderId = this.tabId;
+        }
+        logger.debug(isLeader ? 'This tab is now the queue leader' : 'This tab is now a queue follower');
+        this.options.onLeadershipChange?.(isLeader);
+    }
+
+    private post(message: CoordinatorMessage): void {
+        this.channel?.postMessage(message);
+    }
+
+    private readLock(): LeaderLock | null {
+        try {
+            const stored = getLocalStorage(this.options.lockKey);
+            return stored ? (JSON.parse(stored) as LeaderLock) : null;
+        } catch {
+            return null;
+        }
+    }
+}
@@ -9,32 +9,61 @@ import type {
     TrackingEvent,
     EventType,
     UserTraits,
+    GroupTraits,
     ConsentState,
     Plugin,
+    EventMiddleware,
+    MiddlewareContext,
+    TrackerDiagnostics,
+    EventContext,
+    QueueConfig,
+    Attribution,
+    UTMParams,
+    SessionContext,
+    RegisterOptions,
+    EventCatalog,
+    TrackArgs,
+    StorageAdapter,
+    StorageScope,
+    StorageSet,
 } from '../types';
 import { mergeConfig, SDK_VERSION, STORAGE_KEYS } from './config';
 import { Transport } from './transport';
 import { EventQueue } from './queue';
+import { MiddlewareChain } from './middleware';
+import { createLinkerToken, decorateUrl, readLinkerParam } from './linker';
+import { captureTouch, clearAttribution, updateAttribution } from './attribution';
+import { sanitizeUrl } from './urlRules';
+import { SessionManager } from './session';
+import type { SessionTransition } from './session';
+import { SuperProperties } from './superProperties';
+import { validateEvent } from './schema';
+import { Redactor } from './redaction';
+import type { LinkedIds } from './linker';
 import { logger } from './logger';
 import { getPlugin } from '../plugins';
-import { ConsentManager } from '../consent';
+import { ConsentManager, TcfAdapter, connectGoogleConsentMode } from '../consent';
 import {
     getOrCreateVisitorId,
-    getOrCreateSessionId,
     resetIds,
     getUTMParams,
     getDeviceInfo,
     generateUUID,
-    getSessionStorage,
-    setSessionStorage,
+    createStorage,
+    hashString,
 } from '../utils';
 
+/** Identify calls with an email identify the contact, not the user ID */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 /**
  * Main Clianta Tracker Class
  */
-export class Tracker implements TrackerCore {
+export class Tracker<TEvents extends EventCatalog = EventCatalog> implements TrackerCore<TEvents> {
     private workspaceId: string;
     private config: Required<CliantaConfig>;
+    /** Adapters selected by the `storage` option */
+    private storage: StorageSet;
     private transport: Transport;
     private queue: EventQueue;
     private plugins: Plugin[] = [];
@@ -42,6 +71,23 @@ export class Tracker implements TrackerCore {
     private sessionId: string;
     private isInitialized = false;
     private consentManager: ConsentManager;
+    /** CMP bridge, when `consent.tcf` is enabled */
+    private tcf: TcfAdapter | null = null;
+    private disconnectConsentMode: (() => void) | null = null;
+    private middleware = new MiddlewareChain();
+    /** IDs carried over from a linked domain, adopted on load */
+    private linkedIds: LinkedIds | null = null;
+    /** First-touch / last-touch attribution for this visitor */
+    private attribution: Attribution | null = null;
+    private session: SessionManager;
+    private superProperties: SuperProperties;
+    private redactor: Redactor;
+    /** Identified user, stamped on events */
+    private userId: string | null = null;
+    /** Active group per group type, stamped on events */
+    private groups: Record<string, string> = {};
+    /** Session change found while constructing, reported once initialized */
+    private pendingSession: SessionTransition | null = null;
 
     constructor(workspaceId: string, userConfig: CliantaConfig = {}) {
         if (!workspaceId) {
@@ -51,6 +97,13 @@ export class Tracker implements TrackerCore {
         this.workspaceId = workspaceId;
         this.config = mergeConfig(userConfig);
 
+        // Select storage before anything reads IDs, consent or the queue
+        this.storage = createStorage(this.config.serverMode && !userConfig.storage ? 'memory' : this.config.storage, {
+            domain: this.config.cookieDomain || undefined,
+            secure: this.config.cookieSecure,
+            sameSite: this.config.cookieSameSite,
+        });
+
         // Setup debug mode
         logger.enabled = this.config.debug;
         logger.info(`Initializing SDK v${SDK_VERSION}`, { workspaceId });
@@ -58,65 +111,212 @@ export class Tracker implements TrackerCore {
         // Initialize consent manager
         this.consentManager = new ConsentManager({
             ...this.config.consent,
+            storage: this.storage.persistent,
             onConsentChange: (state, previous) => {
                 this.onConsentChange(state, previous);
             },
         });
 
         // Initialize transport and queue
-        this.transport = new Transport({ apiEndpoint: this.config.apiEndpoint });
-        this.queue = new EventQueue(this.transport, {
-            batchSize: this.config.batchSize,
-            flushInterval: this.config.flushInterval,
+        this.transport = new Transport({
+            ...this.config.transport,
+            apiEndpoint: this.config.apiEndpoint,
+            authToken: this.config.authToken,
         });
+        this.queue = new EventQueue(this.transport, this.createQueueConfig());
+        this.session = new SessionManager(
+            this.config.sessionTimeout,
+            this.storage.session,
+            this.config.referrerRules,
+            this.config.urlRules
+        );
+        this.superProperties = new SuperProperties(this.getIdentityStorage());
+        this.redactor = new Redactor(this.config.redaction);
+
+        // Adopt IDs from a decorated link before creating our own
+        const linker = this.config.linker;
+        if (!this.config.serverMode && linker.acceptIncoming) {
+            this.linkedIds = readLinkerParam(linker.param!, this.getLinkerSecret(), linker.ttl!);
+        }
 
         // Get or create visitor and session IDs based on mode
         this.visitorId = this.createVisitorId();
         this.sessionId = this.createSessionId();
+        this.linkedIds = null;
 
         logger.debug('IDs created', { visitorId: this.visitorId, sessionId: this.sessionId });
 
-        // Initialize plugins
-        this.initPlugins();
+        this.attribution = this.createAttribution();
+
+        if (!this.config.serverMode) {
+            this.userId = this.getIdentityStorage().getItem(STORAGE_KEYS.USER_ID);
+            this.groups = this.loadGroups();
+        }
 
         this.isInitialized = true;
         logger.info('SDK initialized successfully');
+
+        // A CMP may answer synchronously, so connect once events can be handled
+        if (!this.config.serverMode) {
+            this.connectConsentPlatforms();
+        }
+
+        if (this.pendingSession) {
+            this.reportSessionChange(this.pendingSession);
+            this.pendingSession = null;
+        }
+
+        // Initialize plugins last, so the landing page view is tracked
+        // after the session it starts
+        this.initPlugins();
+    }
+
+    /**
+     * Queue settings for the current mode
+     * Server mode keeps events in memory (unless a custom store is given),
+     * flushes before the process exits, and does not rate limit by default.
+     */
+    private createQueueConfig(): Partial<QueueConfig> {
+        const config: Partial<QueueConfig> = {
+            batchSize: this.config.batchSize,
+            flushInterval: this.config.flushInterval,
+            storage: this.storage.queue,
+            offline: this.config.offlineQueue,
+            crossTab: this.config.crossTabQueue,
+            onRejected: this.config.onEventsRejected,
+            rateLimit: this.config.rateLimit,
+            // Tabs only share queued events with trackers that send them to
+            // the same place with the same credentials
+            scope: hashString([this.workspaceId, this.config.apiEndpoint, this.config.authToken].join('|')),
+        };
+
+        if (this.config.serverMode) {
+            config.offline = { ...this.config.offlineQueue, storage: 'memory' };
+            config.crossTab = false;
+            config.rateLimit = { enabled: false, ...this.config.rateLimit };
+            config.flushOnExit = true;
+        }
+
+        return config;
     }
 
     /**
      * Create visitor ID based on storage mode
+     * Server mode has no default visitor; each call supplies one.
      */
     private createVisitorId(): string {
+        if (this.config.serverMode) {
+            return '';
+        }
+
         // Anonymous mode: use temporary ID until consent
         if (this.config.consent.anonymousMode && !this.consentManager.hasExplicit()) {
             const key = STORAGE_KEYS.VISITOR_ID + '_anon';
-            let anonId = getSessionStorage(key);
+            let anonId = this.storage.session.getItem(key);
             if (!anonId) {
                 anonId = 'anon_' + generateUUID();
-                setSessionStorage(key, anonId);
+                this.storage.session.setItem(key, anonId);
             }
             return anonId;
         }
 
-        // Cookie-less mode: use sessionStorage only
+        // Cookie-less mode: use session-scoped storage only
         if (this.config.cookielessMode) {
-            let visitorId = getSessionStorage(STORAGE_KEYS.VISITOR_ID);
+            let visitorId = this.storage.session.getItem(STORAGE_KEYS.VISITOR_ID);
             if (!visitorId) {
                 visitorId = generateUUID();
-                setSessionStorage(STORAGE_KEYS.VISITOR_ID, visitorId);
+                this.storage.session.setItem(STORAGE_KEYS.VISITOR_ID, visitorId);
             }
             return visitorId;
         }
 
         // Normal mode
-        return getOrCreateVisitorId(this.config.useCookies);
+        return getOrCreateVisitorId(this.config.useCookies, this.linkedIds?.visitorId, this.storage);
     }
 
     /**
      * Create session ID
+     * Resumes the stored session, or starts a new one that is reported once
+     * the tracker is initialized.
      */
     private createSessionId(): string {
-        return getOrCreateSessionId(this.config.sessionTimeout);
+        if (this.config.serverMode) {
+            return '';
+        }
+
+        this.pendingSession = this.session.start(this.linkedIds?.sessionId);
+        return this.session.getId();
+    }
+
+    /**
+     * Send session_end for the session that ended and session_start for the
+     * new one, then notify the onSessionChange callback
+     */
+    private reportSessionChange({ ended, started }: SessionTransition): void {
+        this.sessionId = started.sessionId;
+
+        if (ended) {
+            const { sessionId, ...summary } = ended;
+            this.trackEvent('session_end', 'Session Ended', summary, { sessionId });
+        }
+
+        const { context } = started;
+        this.trackEvent(
+            'session_start',
+            'Session Started',
+            {
+                reason: started.reason,
+                previousSessionId: started.previousSessionId,
+                landingPage: context.landingPage,
+                source: context.source,
+                medium: context.medium,
+                channel: context.channel,
+                referrerDomain: context.referrerDomain,
+                campaign: context.campaign,
+            },
+            {}
+        );
+
+        try {
+            this.config.onSessionChange(started);
+        } catch (error) {
+            logger.error('onSessionChange callback failed:', error);
+        }
+    }
+
+    /**
+     * Record this page load as a touch point, when it is one
+     * Without consent, or in cookie-less mode, the touch is not persisted.
+     */
+    private createAttribution(): Attribution | null {
+        const { enabled, ...windows } = this.config.attribution;
+        if (this.config.serverMode || !enabled) {
+            return null;
+        }
+
+        const touch = captureTouch(undefined, this.config.referrerRules, this.config.urlRules);
+        if (this.config.cookielessMode || !this.consentManager.canTrack()) {
+            return touch ? { firstTouch: touch, lastTouch: touch } : null;
+        }
+        return updateAttribution(touch, windows as Required<typeof windows>, undefined, this.storage.persistent);
+    }
+
+    /**
+     * UTMs of the current URL, or of the last touch when the URL has none
+     */
+    private getUTM(): UTMParams | undefined {
+        const utm = getUTMParams() as UTMParams;
+        if (Object.values(utm).some(Boolean)) {
+            return utm;
+        }
+        return this.attribution?.lastTouch.utm ?? utm;
+    }
+
+    /**
+     * Key used to sign and verify cross-domain linker tokens
+     */
+    private getLinkerSecret(): string {
+        return this.config.linker.secret || this.workspaceId;
     }
 
     /**
@@ -129,25 +329,66 @@ export class Tracker implements TrackerCore {
         if (state.analytics && !previous.analytics) {
             // Upgrade from anonymous ID to persistent ID
             if (this.config.consent.anonymousMode) {
-                this.visitorId = getOrCreateVisitorId(this.config.useCookies);
+                this.visitorId = getOrCreateVisitorId(this.config.useCookies, undefined, this.storage);
                 logger.info('Upgraded from anonymous to persistent visitor ID');
             }
 
-            // Flush buffered events
+            // Persist a user and groups identified before consent
+            if (this.userId) {
+                this.setUserId(this.userId);
+            }
+            this.setGroups(this.groups);
+        }
+
+        // Flush events buffered while waiting for consent; with analytics
+        // on by default, the first explicit consent is what allows tracking
+        if (this.consentManager.canTrack()) {
             const buffered = this.consentManager.flushBuffer();
             for (const event of buffered) {
-                // Update event with new visitor ID
-                event.visitorId = this.visitorId;
-                this.queue.push(event);
+                // Update event with new visitor ID (server mode events keep their own)
+                if (!this.config.serverMode) {
+                    event.visitorId = this.visitorId;
+                }
+                this.enqueue(event, 'consent_buffer');
             }
         }
     }
 
+    /**
+     * Connect the IAB TCF CMP and Google Consent Mode, when enabled
+     */
+    private connectConsentPlatforms(): void {
+        const { tcf, googleConsentMode } = this.config.consent;
+
+        if (googleConsentMode) {
+            this.disconnectConsentMode = connectGoogleConsentMode(this.consentManager);
+        }
+
+        if (tcf) {
+            this.tcf = new TcfAdapter(tcf === true ? {} : tcf, (state) => {
+                const current = this.consentManager.getState();
+                const changed = Object.entries(state).some(
+                    ([category, value]) => current[category as keyof ConsentState] !== value
+                );
+                if (changed || !this.consentManager.hasExplicit()) {
+                    this.consentManager.update({ ...current, ...state });
+                }
+            });
+            this.tcf.start();
+        }
+    }
+
     /**
      * Initialize enabled plugins
      * Handles both sync and async plugin init methods
      */
     private initPlugins(): void {
+        // Plugins observe the DOM, which a server doesn't have
+        if (this.config.serverMode) {
+            logger.debug('Server mode, plugins disabled');
+            return;
+        }
+
         const pluginsToLoad = this.config.plugins;
 
         // Skip pageView plugin if autoPageView is disabled
@@ -175,30 +416,86 @@ export class Tracker implements TrackerCore {
 
     /**
      * Track a custom event
+     * With an event catalogue type parameter, the event name and its
+     * properties are checked at compile time.
+     * @param args - properties, then the visitor, session, URL and device
+     *   context (required in server mode, optional overrides in the browser)
      */
-    track(
+    track<K extends keyof TEvents & string>(
+        eventType: EventType | string,
+        eventName: K,
+        ...args: TrackArgs<TEvents[K]>
+    ): void {
+        const [properties = {}, context = {}] = args as [Record<string, unknown>?, EventContext?];
+        this.trackEvent(eventType, eventName, properties, context);
+    }
+
+    /**
+     * Build an event and send it through consent, middleware and the queue
+     * Untyped, for the tracker's own events.
+     */
+    private trackEvent(
         eventType: EventType | string,
         eventName: string,
-        properties: Record<string, unknown> = {}
+        properties: Record<string, unknown>,
+        context: EventContext
     ): void {
         if (!this.isInitialized) {
             logger.warn('SDK not initialized, event dropped');
             return;
         }
 
+        const visitorId = context.visitorId || this.visitorId;
+        if (!visitorId) {
+            logger.warn('visitorId is required in server mode, event dropped:', eventName);
+            return;
+        }
+
+        // Check against the event schema while debugging
+        const schema = this.config.eventSchema;
+        const schemaErrors = logger.enabled ? validateEvent(schema, eventType, eventName, properties) : [];
+        if (schemaErrors.length) {
+            logger.warn(`Event "${eventName}" does not match the schema:`, schemaErrors);
+            if (schema.onInvalid === 'drop') {
+                logger.warn('Invalid event dropped:', eventName);
+                return;
+            }
+        }
+
+        const userId = context.userId || this.userId;
+        const groups = { ...this.groups, ...context.groups };
+
+        // Activity keeps the session alive, or starts a new one once it lapsed
+        const isSessionEvent = eventType === 'session_start' || eventType === 'session_end';
+        if (!this.config.serverMode && !context.sessionId && !isSessionEvent) {
+            const transition = this.session.touch(eventType);
+            if (transition) {
+                this.reportSessionChange(transition);
+            }
+        }
+
+        const url = context.url ?? (typeof window !== 'undefined' ? window.location.href : '');
+        const referrer =
+            context.referrer ?? (typeof document !== 'undefined' ? document.referrer || undefined : undefined);
+
         const event: TrackingEvent = {
+            eventId: generateUUID(),
             workspaceId: this.workspaceId,
-            visitorId: this.visitorId,
-            sessionId: this.sessionId,
+            visitorId,
+            ...(userId ? { userId } : {}),
+            ...(Object.keys(groups).length ? { groups } : {}),
+            sessionId: context.sessionId || this.sessionId,
             eventType: eventType as EventType,
             eventName,
-            url: typeof window !== 'undefined' ? window.location.href : '',
-            referrer: typeof document !== 'undefined' ? document.referrer || undefined : undefined,
-            properties,
-            device: getDeviceInfo(),
-            utm: getUTMParams() as TrackingEvent['utm'],
+            url: sanitizeUrl(url, this.config.urlRules),
+            referrer: referrer && sanitizeUrl(referrer, this.config.urlRules),
+            properties: { ...this.superProperties.getAll(), ...properties },
+            device: { ...getDeviceInfo(), ...context.device },
+            utm: context.utm ?? this.getUTM(),
+            attribution: this.attribution ?? undefined,
             timestamp: new Date().toISOString(),
             sdkVersion: SDK_VERSION,
+            ...(schemaErrors.length && schema.onInvalid === 'tag' ? { schemaErrors } : {}),
         };
 
         // Check consent before tracking
@@ -213,43 +510,247 @@ export class Tracker implements TrackerCore {
             return;
         }
 
-        this.queue.push(event);
+        this.enqueue(event, 'track');
         logger.debug('Event tracked:', eventName, properties);
     }
 
+    /**
+     * Register properties merged into every event
+     * Properties passed to track() take precedence over registered ones.
+     */
+    register(properties: Record<string, unknown>, options?: RegisterOptions): void {
+        this.superProperties.register(properties, options);
+    }
+
+    /**
+     * Register properties whose keys are not registered yet
+     */
+    registerOnce(properties: Record<string, unknown>, options?: RegisterOptions): void {
+        this.superProperties.registerOnce(properties, options);
+    }
+
+    /**
+     * Remove a registered property
+     */
+    unregister(key: string): void {
+        this.superProperties.unregister(key);
+    }
+
+    /**
+     * Register an event middleware
+     * Middleware runs in registration order on every event before it is queued.
+     * Events still in async middleware at page unload are not flushed.
+     */
+    use(middleware: EventMiddleware): () => void {
+        return this.middleware.use(middleware);
+    }
+
+    /**
+     * Run an event through the middleware chain and push it to the queue
+     * Redaction runs last, so data added by middleware is covered too.
+     */
+    private enqueue(event: TrackingEvent, source: MiddlewareContext['source']): void {
+        this.middleware.dispatch(event, { tracker: this, source }, (result) => {
+            this.queue.push(this.redactor.redact(result));
+        });
+    }
+
+    /**
+     * Add a cross-domain linker token to a URL on one of the linker domains
+     * Returns the URL unchanged for other domains, or without analytics consent.
+     */
+    decorateUrl(url: string): string {
+        const linker = this.config.linker;
+        // Anonymous IDs are temporary and must not become persistent elsewhere
+        if (
+            !linker.domains?.length ||
+            !this.visitorId ||
+            this.visitorId.startsWith('anon_') ||
+            !this.consentManager.canTrack()
+        ) {
+            return url;
+        }
+
+        const token = createLinkerToken(
+            { visitorId: this.visitorId, sessionId: this.sessionId },
+            this.getLinkerSecret()
+        );
+        return decorateUrl(url, token, linker.param!, linker.domains) ?? url;
+    }
+
     /**
      * Track a page view
      */
-    page(name?: string, properties: Record<string, unknown> = {}): void {
+    page(name?: string, properties: Record<string, unknown> = {}, context: EventContext = {}): void {
         const pageName = name || (typeof document !== 'undefined' ? document.title : 'Page View');
-        this.track('page_view', pageName, {
-            ...properties,
-            path: typeof window !== 'undefined' ? window.location.pathname : '',
-        });
+        this.trackEvent(
+            'page_view',
+            pageName,
+            {
+                ...properties,
+                path: this.getPath(context.url),
+            },
+            context
+        );
+    }
+
+    /**
+     * Path of the given URL, or of the current page
+     */
+    private getPath(url?: string): string {
+        if (url) {
+            try {
+                return new URL(sanitizeUrl(url, this.config.urlRules)).pathname;
+            } catch {
+                return '';
+            }
+        }
+        return typeof window !== 'undefined' ? sanitizeUrl(window.location.pathname, this.config.urlRules) : '';
     }
 
     /**
      * Identify a visitor
+     * An email identifies the visitor's contact; any other ID becomes the
+     * user ID, stamped on this and later events and kept across page loads.
+     * Identify calls are queued like other events, so they survive offline
+     * periods.
      */
-    async identify(email: string, traits: UserTraits = {}): Promise<void> {
-        if (!email) {
-            logger.warn('Email is required for identification');
+    identify(userIdOrEmail: string, traits: UserTraits = {}, context: EventContext = {}): void {
+        if (!userIdOrEmail) {
+            logger.warn('A user ID or email is required for identification');
             return;
         }
 
-        logger.info('Identifying visitor:', email);
+        const isEmail = EMAIL_PATTERN.test(userIdOrEmail);
+        const email = isEmail ? userIdOrEmail : traits.email;
+        const userId = isEmail ? context.userId : userIdOrEmail;
 
-        const result = await this.transport.sendIdentify({
+        // Server mode serves many users, so the user ID only applies per call
+        if (userId && !this.config.serverMode) {
+            this.setUserId(userId);
+        }
+
+        logger.info('Identifying visitor:', userIdOrEmail);
+        this.trackEvent('identify', 'Identify', { ...traits, ...(email ? { email } : {}) }, { ...context, userId });
+    }
+
+    /**
+     * Link a previous ID (an earlier user ID, or an anonymous ID from another
+     * system) to the current user, so the backend can merge their histories
+     */
+    alias(previousId: string, context: EventContext = {}): void {
+        const currentId = context.userId || this.userId || context.visitorId || this.visitorId;
+        if (!previousId || previousId === currentId) {
+            logger.warn('alias() needs a previous ID that differs from the current one');
+            return;
+        }
+
+        this.trackEvent('alias', 'Alias', { previousId }, context);
+    }
+
+    /**
+     * Associate the visitor with a group, such as the company account they
+     * belong to. The group is stamped on later events and kept across page
+     * loads; its traits are sent to the group endpoint.
+     */
+    async group(
+        groupType: string,
+        groupId: string,
+        traits: GroupTraits = {},
+        context: EventContext = {}
+    ): Promise<void> {
+        if (!groupType || !groupId) {
+            logger.warn('Group type and ID are required');
+            return;
+        }
+
+        const visitorId = context.visitorId || this.visitorId;
+        if (!visitorId) {
+            logger.warn('visitorId is required in server mode, group skipped');
+            return;
+        }
+
+        // Server mode serves many visitors, so groups only apply per call
+        if (!this.config.serverMode) {
+            this.setGroups({ ...this.groups, [groupType]: groupId });
+        }
+
+        if (!this.consentManager.canTrack()) {
+            logger.debug('Group traits not sent (no consent):', groupType, groupId);
+            return;
+        }
+
+        logger.info('Grouping visitor:', groupType, groupId);
+
+        const userId = context.userId || this.userId;
+        const result = await this.transport.sendGroup({
             workspaceId: this.workspaceId,
-            visitorId: this.visitorId,
-            email,
-            properties: traits,
+            visitorId,
+            ...(userId ? { userId } : {}),
+            groupType,
+            groupId,
+            traits,
         });
 
         if (result.success) {
-            logger.info('Visitor identified successfully');
+            logger.info('Group traits sent successfully');
         } else {
-            logger.error('Failed to identify visitor:', result.error);
+            logger.error('Failed to send group traits:', result.error);
+        }
+    }
+
+    /**
+     * Remember the active groups (stored under the same rules as the user ID)
+     */
+    private setGroups(groups: Record<string, string>): void {
+        this.groups = groups;
+
+        const storage = this.getIdentityStorage();
+        if (!Object.keys(groups).length) {
+            storage.removeItem(STORAGE_KEYS.GROUPS);
+        } else if (this.consentManager.canTrack()) {
+            storage.setItem(STORAGE_KEYS.GROUPS, JSON.stringify(groups));
+        }
+    }
+
+    /**
+     * Read the stored active groups
+     */
+    private loadGroups(): Record<string, string> {
+        try {
+            const stored = this.getIdentityStorage().getItem(STORAGE_KEYS.GROUPS);
+            return stored ? (JSON.parse(stored) as Record<string, string>) : {};
+        } catch {
+            return {};
+        }
+    }
+
+    /**
+     * Storage for the identified user and groups (tab-scoped in cookie-less mode)
+     */
+    private getIdentityStorage(): StorageAdapter {
+        return this.storage[this.config.cookielessMode ? 'session' : 'persistent'];
+    }
+
+    /**
+     * Get the identified user ID
+     */
+    getUserId(): string | null {
+        return this.userId;
+    }
+
+    /**
+     * Remember the identified user
+     * Kept in memory only without consent, and for the tab in cookie-less mode.
+     */
+    private setUserId(userId: string | null): void {
+        this.userId = userId;
+
+        const storage = this.getIdentityStorage();
+        if (!userId) {
+            storage.removeItem(STORAGE_KEYS.USER_ID);
+        } else if (this.consentManager.canTrack()) {
+            storage.setItem(STORAGE_KEYS.USER_ID, userId);
         }
     }
 
@@ -289,6 +790,13 @@ export class Tracker implements TrackerCore {
         return this.sessionId;
     }
 
+    /**
+     * Get the traffic source of the current session
+     */
+    getSessionContext(): SessionContext | null {
+        return this.config.serverMode ? null : this.session.getContext();
+    }
+
     /**
      * Get workspace ID
      */
@@ -296,6 +804,13 @@ export class Tracker implements TrackerCore {
         return this.workspaceId;
     }
 
+    /**
+     * Get the storage selected by the `storage` option
+     */
+    getStorage(scope: StorageScope = 'persistent'): StorageAdapter {
+        return this.storage[scope];
+    }
+
     /**
      * Get current configuration
      */
@@ -303,10 +818,23 @@ export class Tracker implements TrackerCore {
         return { ...this.config };
     }
 
+    /**
+     * Get internal state for troubleshooting
+     */
+    getDiagnostics(): TrackerDiagnostics {
+        return {
+            queueLength: this.queue.length,
+            circuit: this.transport.getCircuitState(),
+            privacySignal: this.consentManager.getPrivacySignal(),
+            tcString: this.tcf?.getTCString() ?? null,
+        };
+    }
+
     /**
      * Force flush event queue
      */
     async flush(): Promise<void> {
+        await this.middleware.drain();
         await this.queue.flush();
     }
 
@@ -315,10 +843,18 @@ export class Tracker implements TrackerCore {
      */
     reset(): void {
         logger.info('Resetting visitor data');
-        resetIds(this.config.useCookies);
+        resetIds(this.config.useCookies, this.storage);
+        clearAttribution(this.storage.persistent);
+        this.attribution = null;
+        this.superProperties.clear();
+        this.setUserId(null);
+        this.setGroups({});
         this.visitorId = this.createVisitorId();
-        this.sessionId = this.createSessionId();
         this.queue.clear();
+
+        if (!this.config.serverMode) {
+            this.reportSessionChange(this.session.reset());
+        }
     }
 
     /**
@@ -333,35 +869,33 @@ export class Tracker implements TrackerCore {
         // Reset consent
         this.consentManager.reset();
 
-        // Clear all stored IDs
-        resetIds(this.config.useCookies);
-
-        // Clear session storage items
-        if (typeof sessionStorage !== 'undefined') {
-            try {
-                sessionStorage.removeItem(STORAGE_KEYS.VISITOR_ID);
-                sessionStorage.removeItem(STORAGE_KEYS.VISITOR_ID + '_anon');
-                sessionStorage.removeItem(STORAGE_KEYS.SESSION_ID);
-                sessionStorage.removeItem(STORAGE_KEYS.SESSION_TIMESTAMP);
-            } catch {
-                // Ignore errors
-            }
-        }
-
-        // Clear localStorage items
-        if (typeof localStorage !== 'undefined') {
-            try {
-                localStorage.removeItem(STORAGE_KEYS.VISITOR_ID);
-                localStorage.removeItem(STORAGE_KEYS.CONSENT);
-                localStorage.removeItem(STORAGE_KEYS.EVENT_QUEUE);
-            } catch {
-                // Ignore errors
-            }
-        }
-
-        // Generate new IDs
+        // Clear all stored IDs, attribution and super properties
+        resetIds(this.config.useCookies, this.storage);
+        clearAttribution(this.storage.persistent);
+        this.attribution = null;
+        this.superProperties.clear();
+        this.setUserId(null);
+        this.setGroups({});
+
+        // Clear session-scoped items
+        const session = this.storage.session;
+        session.removeItem(STORAGE_KEYS.VISITOR_ID);
+        session.removeItem(STORAGE_KEYS.VISITOR_ID + '_anon');
+        session.removeItem(STORAGE_KEYS.SESSION_ID);
+        session.removeItem(STORAGE_KEYS.SESSION_TIMESTAMP);
+
+        // Clear persistent items
+        const storage = this.storage.persistent;
+        storage.removeItem(STORAGE_KEYS.VISITOR_ID);
+        storage.removeItem(STORAGE_KEYS.CONSENT);
+        this.storage.queue.removeItem(STORAGE_KEYS.EVENT_QUEUE);
+
+        // Generate new IDs (the new session is not reported, so nothing is
+        // sent on the visitor's behalf right after deletion)
         this.visitorId = this.createVisitorId();
-        this.sessionId = this.createSessionId();
+        if (!this.config.serverMode) {
+            this.sessionId = this.session.reset().started.sessionId;
+        }
 
         logger.info('All user data deleted');
     }
@@ -373,6 +907,7 @@ export class Tracker implements TrackerCore {
         logger.info('Destroying tracker');
 
         // Flush any remaining events (await to ensure completion)
+        await this.middleware.drain();
         await this.queue.flush();
 
         // Destroy plugins
@@ -383,6 +918,11 @@ export class Tracker implements TrackerCore {
         }
         this.plugins = [];
 
+        this.tcf?.stop();
+        this.tcf = null;
+        this.disconnectConsentMode?.();
+        this.disconnectConsentMode = null;
+
         // Destroy queue
         this.queue.destroy();
 
@@ -4,26 +4,199 @@
  * @see SDK_VERSION in core/config.ts
  */
 
-import type { TransportConfig, TransportResult, TrackingEvent, IdentifyPayload } from '../types';
+import type {
+    TransportConfig,
+    TransportResult,
+    TrackingEvent,
+    IdentifyPayload,
+    GroupPayload,
+    BatchDeliveryResult,
+} from '../types';
+import type { CircuitBreakerSnapshot, CompressionConfig } from '../types';
+import { CircuitBreaker } from './circuitBreaker';
+import { encodeBatch } from './envelope';
 import { logger } from './logger';
+import { generateUUID, hashString } from '../utils';
 
 const DEFAULT_TIMEOUT = 10000; // 10 seconds
 const DEFAULT_MAX_RETRIES = 3;
 const DEFAULT_RETRY_DELAY = 1000; // 1 second
+const DEFAULT_MAX_RETRY_DELAY = 30000; // 30 seconds
+const DEFAULT_COMPRESSION_THRESHOLD = 1024; // 1 KB
+/** Browsers reject beacons (and keepalive bodies) over ~64 KB */
+const MAX_BEACON_BYTES = 60 * 1024;
+
+/**
+ * Query parameter marking a compressed beacon body.
+ * sendBeacon cannot set Content-Encoding, so the backend reads it from the URL.
+ */
+export const BEACON_ENCODING_PARAM = 'content_encoding';
+
+/** Response header the backend uses to opt in to the v2 batch envelope */
+export const BATCH_VERSION_HEADER = 'X-Clianta-Batch-Version';
+
+/** Header carrying the per-batch idempotency key */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Derive a batch idempotency key from its event IDs.
+ * The same events always yield the same key, so a batch that is re-queued
+ * and rebuilt after a failure is recognised by the backend as a retry.
+ */
+export function getBatchId(events: TrackingEvent[]): string {
+    for (const event of events) {
+        if (!event.eventId) {
+            event.eventId = generateUUID();
+        }
+    }
+    return 'batch_' + hashString(events.map((event) => event.eventId).join(','));
+}
+
+/**
+ * Read a JSON response body, if there is one
+ */
+async function readBody(response: Response): Promise<unknown> {
+    try {
+        return typeof response.json === 'function' ? await response.json() : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Extract per-event delivery results from a track response body.
+ * Indices outside the batch are ignored.
+ * @returns null if the body is not a structured batch response
+ */
+export function parseBatchResult(data: unknown, size: number): BatchDeliveryResult | null {
+    if (!data || typeof data !== 'object') return null;
+
+    const body = data as Record<string, unknown>;
+    if (!Array.isArray(body.accepted) && !Array.isArray(body.rejected) && !Array.isArray(body.retryable)) {
+        return null;
+    }
+
+    const isIndex = (value: unknown): value is number =>
+        typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < size;
+
+    const rejected: BatchDeliveryResult['rejected'] = [];
+    if (Array.isArray(body.rejected)) {
+        for (const item of body.rejected) {
+            if (isIndex(item)) {
+                rejected.push({ index: item, reason: 'rejected' });
+            } else if (item && typeof item === 'object' && isIndex((item as { index?: unknown }).index)) {
+                const { index, reason } = item as { index: number; reason?: unknown };
+                rejected.push({ index, reason: typeof reason === 'string' ? reason : 'rejected' });
+            }
+        }
+    }
+
+    return {
+        accepted: Array.isArray(body.accepted) ? body.accepted.filter(isIndex) : [],
+        rejected,
+        retryable: Array.isArray(body.retryable) ? body.retryable.filter(isIndex) : [],
+    };
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ * @returns null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return seconds >= 0 ? seconds * 1000 : null;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Split events into chunks whose serialized size stays under `maxBytes`.
+ * An event larger than the limit on its own gets a chunk to itself.
+ */
+export function chunkEvents(events: TrackingEvent[], maxBytes = MAX_BEACON_BYTES): TrackingEvent[][] {
+    const chunks: TrackingEvent[][] = [];
+    let current: TrackingEvent[] = [];
+    // Room for the `{"events":[...]}` wrapper
+    let size = 16;
+
+    for (const event of events) {
+        const eventSize = JSON.stringify(event).length + 1;
+        if (current.length > 0 && size + eventSize > maxBytes) {
+            chunks.push(current);
+            current = [];
+            size = 16;
+        }
+        current.push(event);
+        size += eventSize;
+    }
+
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+    return chunks;
+}
+
+/**
+ * Whether the CompressionStream API is available
+ */
+function canCompress(): boolean {
+    return typeof CompressionStream !== 'undefined' && typeof Response !== 'undefined';
+}
+
+/**
+ * Compress a string with CompressionStream
+ */
+async function compress(payload: string, format: 'gzip' | 'deflate'): Promise<ArrayBuffer> {
+    const stream = new Blob([payload]).stream().pipeThrough(new CompressionStream(format));
+    return new Response(stream).arrayBuffer();
+}
 
 /**
  * Transport class for sending data to the backend
  */
 export class Transport {
-    private config: Required<TransportConfig>;
+    private config: Required<Omit<TransportConfig, 'circuitBreaker' | 'compression'>>;
+    private compression: Required<CompressionConfig>;
+    private circuitBreaker: CircuitBreaker;
+    /** Batch version the backend has advertised support for */
+    private negotiatedVersion: 1 | 2 = 1;
 
     constructor(config: TransportConfig) {
         this.config = {
             apiEndpoint: config.apiEndpoint,
+            authToken: config.authToken ?? '',
             maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
             retryDelay: config.retryDelay ?? DEFAULT_RETRY_DELAY,
+            maxRetryDelay: config.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY,
+            jitter: config.jitter ?? true,
+            batchVersion: config.batchVersion ?? 'auto',
             timeout: config.timeout ?? DEFAULT_TIMEOUT,
         };
+        this.compression = {
+            enabled: config.compression?.enabled ?? false,
+            threshold: config.compression?.threshold ?? DEFAULT_COMPRESSION_THRESHOLD,
+            format: config.compression?.format ?? 'gzip',
+        };
+        this.circuitBreaker = new CircuitBreaker(config.circuitBreaker);
+    }
+
+    /**
+     * Whether the circuit breaker currently allows requests
+     */
+    isAvailable(): boolean {
+        return this.circuitBreaker.getSnapshot().state !== 'open';
+    }
+
+    /**
+     * Get circuit breaker state for diagnostics
+     */
+    getCircuitState(): CircuitBreakerSnapshot {
+        return this.circuitBreaker.getSnapshot();
     }
 
     /**
@@ -31,13 +204,21 @@ export class Transport {
      */
     async sendEvents(events: TrackingEvent[]): Promise<TransportResult> {
         const url = `${this.config.apiEndpoint}/api/public/track/event`;
-        const payload = JSON.stringify({ events });
+        const headers: Record<string, string> = { [IDEMPOTENCY_HEADER]: getBatchId(events) };
+        const { body, encoding } = await this.encode(this.serializeEvents(events));
+        if (encoding) {
+            headers['Content-Encoding'] = encoding;
+        }
 
-        return this.send(url, payload);
+        const result = await this.send(url, body, headers);
+        const batch = parseBatchResult(result.data, events.length);
+        return batch ? { ...result, batch } : result;
     }
 
     /**
-     * Send identify request
+     * Send identify request directly
+     * The tracker queues identify calls as events instead, so they are
+     * retried and persisted offline like any other event.
      */
     async sendIdentify(data: IdentifyPayload): Promise<TransportResult> {
         const url = `${this.config.apiEndpoint}/api/public/track/identify`;
@@ -46,6 +227,83 @@ export class Transport {
         return this.send(url, payload);
     }
 
+    /**
+     * Send group traits
+     */
+    async sendGroup(data: GroupPayload): Promise<TransportResult> {
+        const url = `${this.config.apiEndpoint}/api/public/track/group`;
+        return this.send(url, JSON.stringify(data));
+    }
+
+    /**
+     * Send events with a single keepalive fetch (for page unload when a
+     * beacon is unavailable or rejected). Keepalive requests outlive the page,
+     * but their result is only observable while it is still running.
+     * @returns null if fetch is unavailable
+     */
+    sendKeepalive(events: TrackingEvent[]): Promise<boolean> | null {
+        if (typeof fetch === 'undefined') {
+            return null;
+        }
+
+        const url = `${this.config.apiEndpoint}/api/public/track/event`;
+        try {
+            return fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...this.authHeaders(),
+                    [IDEMPOTENCY_HEADER]: getBatchId(events),
+                },
+                body: this.serializeEvents(events),
+                keepalive: true,
+            })
+                .then((response) => {
+                    logger.debug(`Keepalive request sent ${events.length} events (${response.status})`);
+                    return response.ok;
+                })
+                .catch((error) => {
+                    logger.warn('Keepalive request failed:', error);
+                    return false;
+                });
+        } catch (error) {
+            logger.error('Keepalive request error:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Send events via beacon, compressing the body first when it is large.
+     * Compression is async, so use this only where the page keeps running
+     * briefly (e.g. visibilitychange to hidden); otherwise use sendBeacon.
+     */
+    async sendBeaconCompressed(events: TrackingEvent[]): Promise<boolean> {
+        const payload = this.serializeEvents(events);
+        const { body, encoding } = await this.encode(payload);
+        if (!encoding) {
+            return this.sendBeacon(events);
+        }
+
+        if (typeof navigator === 'undefined' || !navigator.sendBeacon) {
+            logger.warn('sendBeacon not available, events may be lost');
+            return false;
+        }
+
+        const url = `${this.config.apiEndpoint}/api/public/track/event?${BEACON_ENCODING_PARAM}=${encoding}`;
+        try {
+            const success = navigator.sendBeacon(url, new Blob([body], { type: 'application/json' }));
+            if (success) {
+                logger.debug(`Beacon sent ${events.length} compressed events`);
+            } else {
+                logger.warn('sendBeacon returned false');
+            }
+            return success;
+        } catch (error) {
+            logger.error('sendBeacon error:', error);
+            return false;
+        }
+    }
+
     /**
      * Send events synchronously (for page unload)
      * Uses navigator.sendBeacon for reliability
@@ -57,7 +315,7 @@ export class Transport {
         }
 
         const url = `${this.config.apiEndpoint}/api/public/track/event`;
-        const payload = JSON.stringify({ events });
+        const payload = this.serializeEvents(events);
         const blob = new Blob([payload], { type: 'application/json' });
 
         try {
@@ -76,13 +334,27 @@ export class Transport {
 
     /**
      * Internal send with retry logic
+     * Retries use exponential backoff and reuse the same headers, including
+     * any idempotency key. 429/503 responses honour Retry-After.
      */
-    private async send(url: string, payload: string, attempt = 1): Promise<TransportResult> {
+    private async send(
+        url: string,
+        payload: string | ArrayBuffer,
+        headers: Record<string, string> = {},
+        attempt = 1
+    ): Promise<TransportResult> {
+        if (attempt === 1 && !this.circuitBreaker.canRequest()) {
+            logger.debug('Circuit open, request skipped:', url);
+            return { success: false, error: new Error('Circuit breaker open') };
+        }
+
         try {
             const response = await this.fetchWithTimeout(url, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
+                    ...this.authHeaders(),
+                    ...headers,
                 },
                 body: payload,
                 keepalive: true,
@@ -90,32 +362,124 @@ export class Transport {
 
             if (response.ok) {
                 logger.debug('Request successful:', url);
-                return { success: true, status: response.status };
+                const data = await readBody(response);
+                this.negotiateVersion(response, data);
+                this.circuitBreaker.recordSuccess();
+                return { success: true, status: response.status, data };
             }
 
-            // Server error - may retry
-            if (response.status >= 500 && attempt < this.config.maxRetries) {
+            // Throttled or unavailable - honour Retry-After
+            if (response.status === 429 || response.status === 503) {
+                const retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
+                if (retryAfter !== null) {
+                    this.circuitBreaker.pause(retryAfter);
+                    if (retryAfter <= this.config.maxRetryDelay && attempt < this.config.maxRetries) {
+                        logger.warn(`Server asked to retry after ${retryAfter}ms (${response.status})`);
+                        await this.delay(retryAfter);
+                        return this.send(url, payload, headers, attempt + 1);
+                    }
+                    logger.error(`Request throttled with status ${response.status}`);
+                    return { success: false, status: response.status };
+                }
+            }
+
+            // Server error or throttling - may retry
+            if ((response.status >= 500 || response.status === 429) && attempt < this.config.maxRetries) {
                 logger.warn(`Server error (${response.status}), retrying...`);
-                await this.delay(this.config.retryDelay * attempt);
-                return this.send(url, payload, attempt + 1);
+                await this.delay(this.getBackoff(attempt));
+                return this.send(url, payload, headers, attempt + 1);
             }
 
-            // Client error - don't retry
+            if (response.status >= 500 || response.status === 429) {
+                this.circuitBreaker.recordFailure();
+                logger.error(`Request failed with status ${response.status}`);
+                return { success: false, status: response.status };
+            }
+
+            // Client error - don't retry, the backend itself is healthy
+            this.circuitBreaker.recordSuccess();
             logger.error(`Request failed with status ${response.status}`);
-            return { success: false, status: response.status };
+            return { success: false, status: response.status, data: await readBody(response) };
         } catch (error) {
             // Network error - retry if possible
             if (attempt < this.config.maxRetries) {
                 logger.warn(`Network error, retrying (${attempt}/${this.config.maxRetries})...`);
-                await this.delay(this.config.retryDelay * attempt);
-                return this.send(url, payload, attempt + 1);
+                await this.delay(this.getBackoff(attempt));
+                return this.send(url, payload, headers, attempt + 1);
             }
 
+            this.circuitBreaker.recordFailure();
             logger.error('Request failed after retries:', error);
             return { success: false, error: error as Error };
         }
     }
 
+    /**
+     * Batch version used for the next request
+     */
+    getBatchVersion(): 1 | 2 {
+        return this.config.batchVersion === 'auto' ? this.negotiatedVersion : this.config.batchVersion;
+    }
+
+    /**
+     * Serialize events in the current batch format
+     */
+    private serializeEvents(events: TrackingEvent[]): string {
+        return JSON.stringify(this.getBatchVersion() === 2 ? encodeBatch(events) : { events });
+    }
+
+    /**
+     * Switch to the v2 envelope once the backend advertises support for it,
+     * in the response header or a `batchVersion` body field. Browsers only
+     * expose the header cross-origin if the backend lists it in
+     * Access-Control-Expose-Headers.
+     */
+    private negotiateVersion(response: Response, data: unknown): void {
+        if (this.config.batchVersion !== 'auto' || this.negotiatedVersion === 2) return;
+
+        const bodyVersion = data && typeof data === 'object' ? (data as { batchVersion?: unknown }).batchVersion : null;
+        const advertised = Number(response.headers?.get(BATCH_VERSION_HEADER) ?? bodyVersion);
+        if (advertised >= 2) {
+            this.negotiatedVersion = 2;
+            logger.debug('Backend supports v2 batch envelope');
+        }
+    }
+
+    /**
+     * Compress a payload above the size threshold when supported
+     * Falls back to the plain JSON string.
+     */
+    private async encode(payload: string): Promise<{ body: string | ArrayBuffer; encoding?: string }> {
+        if (!this.compression.enabled || payload.length < this.compression.threshold || !canCompress()) {
+            return { body: payload };
+        }
+
+        try {
+            const body = await compress(payload, this.compression.format);
+            logger.debug(`Compressed payload ${payload.length} → ${body.byteLength} bytes`);
+            return { body, encoding: this.compression.format };
+        } catch (error) {
+            logger.warn('Compression failed, sending uncompressed:', error);
+            return { body: payload };
+        }
+    }
+
+    /**
+     * Exponential backoff with optional full jitter
+     */
+    private getBackoff(attempt: number): number {
+        const delay = Math.min(this.config.maxRetryDelay, this.config.retryDelay * 2 ** (attempt - 1));
+        return this.config.jitter ? Math.random() * delay : delay;
+    }
+
+    /**
+     * Authorization header for authenticated ingestion
+     * Beacons cannot carry headers, so they are always unauthenticated.
+     */
+    private authHeaders(): Record<string, string> {
+        return this.config.authToken ? { Authorization: `Bearer ${this.config.authToken}` } : {};
+    }
+
     /**
      * Fetch with timeout
      */
@@ -0,0 +1,81 @@
+/**
+ * Clianta SDK - URL Rules
+ * Strips query parameters, collapses dynamic path segments and drops hashes
+ * from URLs before they are recorded
+ * @see SDK_VERSION in core/config.ts
+ */
+
+import type { PathSegmentRule, UrlRulesConfig } from '../types';
+
+/**
+ * Built-in path segment rules used with `collapseIds`, checked in order
+ */
+export const DEFAULT_PATH_RULES: PathSegmentRule[] = [
+    { match: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, replacement: ':id' },
+    { match: /^\d+$/, replacement: ':id' },
+    { match: /^[0-9a-f]{16,}$/i, replacement: ':id' },
+    // Opaque tokens, e.g. magic links: long and mixing letters and digits
+    { match: /^(?=.*\d)(?=.*[A-Za-z])[A-Za-z0-9_-]{24,}$/, replacement: ':token' },
+];
+
+function safeDecode(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+function isStripped(key: string, rules: UrlRulesConfig): boolean {
+    return (rules.stripParams ?? []).some((rule) =>
+        typeof rule === 'string' ? rule.toLowerCase() === key.toLowerCase() : rule.test(key)
+    );
+}
+
+/**
+ * Apply the URL rules to an absolute or relative URL
+ * URLs the rules don't change are returned as given.
+ */
+export function sanitizeUrl(url: string, rules: UrlRulesConfig = {}): string {
+    const pathRules = [...(rules.pathRules ?? []), ...(rules.collapseIds ? DEFAULT_PATH_RULES : [])];
+    const hasRules = rules.stripParams?.length || pathRules.length || rules.dropHash;
+    if (!url || !hasRules) return url;
+
+    const isAbsolute = /^[a-z][a-z\d+.-]*:/i.test(url);
+    let parsed: URL;
+    try {
+        parsed = new URL(url, 'http://relative.invalid');
+    } catch {
+        return url;
+    }
+
+    let changed = false;
+
+    const params = parsed.searchParams;
+    const stripped = [...new Set(params.keys())].filter((key) => isStripped(key, rules));
+    if (stripped.length) {
+        stripped.forEach((key) => params.delete(key));
+        parsed.search = params.toString();
+        changed = true;
+    }
+
+    if (pathRules.length) {
+        const segments = parsed.pathname.split('/').map((segment) => {
+            const rule = segment && pathRules.find((r) => r.match.test(safeDecode(segment)));
+            return rule ? rule.replacement : segment;
+        });
+        const pathname = segments.join('/');
+        if (pathname !== parsed.pathname) {
+            parsed.pathname = pathname;
+            changed = true;
+        }
+    }
+
+    if (rules.dropHash && parsed.hash) {
+        parsed.hash = '';
+        changed = true;
+    }
+
+    if (!changed) return url;
+    return isAbsolute ? parsed.href : parsed.pathname + parsed.search + parsed.hash;
+}
@@ -7,19 +7,64 @@
 import { Tracker } from './core/tracker';
 import { CRMClient } from './core/crm';
 import { ConsentManager } from './consent';
-import type { CliantaConfig, TrackerCore } from './types';
+import type { CliantaConfig, EventCatalog, TrackerCore } from './types';
 
 // Export types
 export type {
     CliantaConfig,
     TrackerCore,
     TrackingEvent,
+    RejectedEvent,
     EventType,
     UserTraits,
+    GroupTraits,
     ConsentState,
     ConsentConfig,
+    PrivacySignal,
+    PrivacySignalStatus,
+    TcfConfig,
+    GoogleConsentModeState,
+    GoogleConsentStatus,
+    OfflineQueueConfig,
+    TransportOptions,
+    CircuitBreakerConfig,
+    CircuitBreakerSnapshot,
+    TrackerDiagnostics,
+    RateLimitConfig,
+    EventPriority,
+    EventContext,
+    EventStore,
+    StorageAdapter,
+    StorageOption,
+    StorageScope,
+    CookieSameSite,
+    LinkerConfig,
+    AttributionConfig,
+    RedactionConfig,
+    UrlRulesConfig,
+    PathSegmentRule,
+    PiiPattern,
+    Attribution,
+    TouchPoint,
+    ClickIds,
+    Channel,
+    TrafficSource,
+    ReferrerRule,
+    SessionContext,
+    SessionChange,
+    SessionChangeReason,
+    RegisterOptions,
+    EventCatalog,
+    EventSchema,
+    EventSchemaConfig,
+    PropertyRule,
+    PropertyTypeName,
+    InferEventCatalog,
+    TrackArgs,
     Plugin,
     PluginName,
+    EventMiddleware,
+    MiddlewareContext,
     Contact,
     Company,
     Opportunity,
@@ -34,6 +79,18 @@ export type {
 // Export consent types
 export type { ConsentChangeCallback, ConsentManagerConfig, StoredConsent } from './consent';
 
+// Export the TCF purpose mapping and Google Consent Mode helpers for custom CMP setups
+export { DEFAULT_TCF_PURPOSES, mapTcfConsent, toGoogleConsentMode } from './consent';
+
+// Export event schema helper
+export { defineEventSchema } from './core/schema';
+
+// Export built-in referrer rules for extension
+export { DEFAULT_REFERRER_RULES } from './core/referrer';
+
+// Export built-in path segment rules and the URL sanitiser
+export { DEFAULT_PATH_RULES, sanitizeUrl } from './core/urlRules';
+
 // Export SDK version
 export { SDK_VERSION } from './core/config';
 
@@ -66,8 +123,16 @@ let globalInstance: Tracker | null = null;
  *   },
  *   cookielessMode: true, // GDPR-friendly mode
  * });
+ *
+ * @example
+ * // With a typed event catalogue
+ * const tracker = clianta<{ 'Signup Completed': { plan: 'free' | 'pro' } }>('your-workspace-id');
+ * tracker.track('custom', 'Signup Completed', { plan: 'pro' });
  */
-export function clianta(workspaceId: string, config?: CliantaConfig): TrackerCore {
+export function clianta<TEvents extends EventCatalog = EventCatalog>(
+    workspaceId: string,
+    config?: CliantaConfig
+): TrackerCore<TEvents> {
     // Return existing instance if same workspace
     if (globalInstance && globalInstance.getWorkspaceId() === workspaceId) {
         return globalInstance;
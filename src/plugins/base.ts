@@ -3,7 +3,9 @@
  * @see SDK_VERSION in core/config.ts
  */
 
-import type { Plugin, PluginName, TrackerCore } from '../types';
+import type { Plugin, PluginName, StorageAdapter, StorageScope, TrackerCore } from '../types';
+import { getStorage } from '../utils';
+import { sanitizeUrl } from '../core/urlRules';
 
 /**
  * Base class for plugins
@@ -29,4 +31,18 @@ export abstract class BasePlugin implements Plugin {
             this.tracker.track(eventType, eventName, properties);
         }
     }
+
+    /**
+     * Apply the tracker's URL rules
+     */
+    protected sanitizeUrl(url: string): string {
+        return sanitizeUrl(url, this.tracker?.getConfig().urlRules);
+    }
+
+    /**
+     * The tracker's storage, or the default storage when not initialized
+     */
+    protected getStorage(scope: StorageScope = 'persistent'): StorageAdapter {
+        return this.tracker ? this.tracker.getStorage(scope) : getStorage(scope);
+    }
 }
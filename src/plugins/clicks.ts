@@ -9,10 +9,13 @@ import { getElementText, getElementInfo, isTrackableClickElement } from '../util
 
 /**
  * Click Tracking Plugin - Tracks button and CTA clicks
+ * Also decorates links and forms to linker domains with the cross-domain
+ * visitor token at the moment they are used, so the token is fresh.
  */
 export class ClicksPlugin extends BasePlugin {
     name: PluginName = 'clicks';
     private boundHandler: ((e: MouseEvent) => void) | null = null;
+    private boundSubmitHandler: ((e: Event) => void) | null = null;
 
     init(tracker: TrackerCore): void {
         super.init(tracker);
@@ -20,6 +23,11 @@ export class ClicksPlugin extends BasePlugin {
         if (typeof document !== 'undefined') {
             this.boundHandler = this.handleClick.bind(this);
             document.addEventListener('click', this.boundHandler, true);
+
+            if (tracker.getConfig().linker?.domains?.length) {
+                this.boundSubmitHandler = this.handleSubmit.bind(this);
+                document.addEventListener('submit', this.boundSubmitHandler, true);
+            }
         }
     }
 
@@ -27,12 +35,19 @@ export class ClicksPlugin extends BasePlugin {
         if (this.boundHandler && typeof document !== 'undefined') {
             document.removeEventListener('click', this.boundHandler, true);
         }
+        if (this.boundSubmitHandler && typeof document !== 'undefined') {
+            document.removeEventListener('submit', this.boundSubmitHandler, true);
+        }
         super.destroy();
     }
 
     private handleClick(e: MouseEvent): void {
         const target = e.target as Element;
-        if (!target || !isTrackableClickElement(target)) return;
+        if (!target) return;
+
+        this.decorateLink(target);
+
+        if (!isTrackableClickElement(target)) return;
 
         const buttonText = getElementText(target, 100);
         const elementInfo = getElementInfo(target);
@@ -42,7 +57,49 @@ export class ClicksPlugin extends BasePlugin {
             elementType: target.tagName.toLowerCase(),
             elementId: elementInfo.id,
             elementClass: elementInfo.className,
-            href: (target as HTMLAnchorElement).href || undefined,
+            href: this.sanitizeUrl((target as HTMLAnchorElement).href) || undefined,
         });
     }
+
+    /**
+     * Add the linker token to a clicked link on a linker domain
+     */
+    private decorateLink(target: Element): void {
+        const link = typeof target.closest === 'function' ? target.closest('a') : null;
+        if (!link || !link.href || !this.tracker) return;
+
+        const decorated = this.tracker.decorateUrl(link.href);
+        if (decorated !== link.href) {
+            link.href = decorated;
+        }
+    }
+
+    /**
+     * Add the linker token to a form submitted to a linker domain
+     * GET submissions replace the action's query string with the form
+     * fields, so the token goes in a hidden field instead.
+     */
+    private handleSubmit(e: Event): void {
+        const form = e.target as HTMLFormElement;
+        if (!form || form.tagName !== 'FORM' || !form.action || !this.tracker) return;
+
+        const decorated = this.tracker.decorateUrl(form.action);
+        if (decorated === form.action) return;
+
+        if (form.method.toLowerCase() !== 'get') {
+            form.action = decorated;
+            return;
+        }
+
+        const param = this.tracker.getConfig().linker?.param ?? '_cl';
+        const token = new URL(decorated).searchParams.get(param) ?? '';
+        let input = form.querySelector<HTMLInputElement>(`input[type="hidden"][name="${param}"]`);
+        if (!input) {
+            input = document.createElement('input');
+            input.type = 'hidden';
+            input.name = param;
+            form.appendChild(input);
+        }
+        input.value = token;
+    }
 }
@@ -44,10 +44,11 @@ export class DownloadsPlugin extends BasePlugin {
         if (this.trackedDownloads.has(url)) return;
         this.trackedDownloads.add(url);
 
+        const recordedUrl = this.sanitizeUrl(url);
         this.track('download', 'File Download', {
-            url,
-            filename: getFilenameFromUrl(url),
-            fileType: getFileExtension(url),
+            url: recordedUrl,
+            filename: getFilenameFromUrl(recordedUrl),
+            fileType: getFileExtension(recordedUrl),
             linkText: getElementText(link, 100),
         });
     }
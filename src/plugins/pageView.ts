@@ -5,6 +5,7 @@
 
 import type { PluginName, TrackerCore } from '../types';
 import { BasePlugin } from './base';
+import { getPageTraffic } from '../core/referrer';
 
 /**
  * Page View Plugin - Tracks page views
@@ -14,6 +15,8 @@ export class PageViewPlugin extends BasePlugin {
     private originalPushState: typeof history.pushState | null = null;
     private originalReplaceState: typeof history.replaceState | null = null;
     private popstateHandler: (() => void) | null = null;
+    /** Only the landing page view carries the traffic source */
+    private isLanding = true;
 
     init(tracker: TrackerCore): void {
         super.init(tracker);
@@ -66,13 +69,26 @@ export class PageViewPlugin extends BasePlugin {
     private trackPageView(): void {
         if (typeof window === 'undefined' || typeof document === 'undefined') return;
 
+        // SPA navigations keep the landing page's referrer, so only the
+        // first page view is classified
+        const traffic = this.isLanding ? getPageTraffic(this.tracker?.getConfig().referrerRules) : null;
+        this.isLanding = false;
+
+        const location = new URL(this.sanitizeUrl(window.location.href), window.location.href);
+
         this.track('page_view', 'Page Viewed', {
             title: document.title,
-            path: window.location.pathname,
-            search: window.location.search,
-            hash: window.location.hash,
-            referrer: document.referrer || 'direct',
+            path: location.pathname,
+            search: location.search,
+            hash: location.hash,
+            referrer: document.referrer ? this.sanitizeUrl(document.referrer) : 'direct',
             viewport: `${window.innerWidth}x${window.innerHeight}`,
+            ...(traffic && {
+                source: traffic.source,
+                medium: traffic.medium,
+                channel: traffic.channel,
+                referrerDomain: traffic.referrerDomain,
+            }),
         });
     }
 }
@@ -80,7 +80,7 @@ export class PopupFormsPlugin extends BasePlugin {
 
     private loadShownForms(): void {
         try {
-            const stored = localStorage.getItem('clianta_shown_forms');
+            const stored = this.getStorage().getItem('clianta_shown_forms');
             if (stored) {
                 const data = JSON.parse(stored);
                 this.shownForms = new Set(data.forms || []);
@@ -92,7 +92,7 @@ export class PopupFormsPlugin extends BasePlugin {
 
     private saveShownForms(): void {
         try {
-            localStorage.setItem('clianta_shown_forms', JSON.stringify({
+            this.getStorage().setItem('clianta_shown_forms', JSON.stringify({
                 forms: Array.from(this.shownForms),
                 timestamp: Date.now(),
             }));
@@ -133,7 +133,7 @@ export class PopupFormsPlugin extends BasePlugin {
             if (this.shownForms.has(form._id)) return false;
         } else if (form.showFrequency === 'once_per_session') {
             const sessionKey = `clianta_form_${form._id}_shown`;
-            if (sessionStorage.getItem(sessionKey)) return false;
+            if (this.getStorage('session').getItem(sessionKey)) return false;
         }
         return true;
     }
@@ -211,7 +211,7 @@ export class PopupFormsPlugin extends BasePlugin {
         // Mark as shown
         this.shownForms.add(form._id);
         this.saveShownForms();
-        sessionStorage.setItem(`clianta_form_${form._id}_shown`, 'true');
+        this.getStorage('session').setItem(`clianta_form_${form._id}_shown`, 'true');
 
         // Track view
         await this.trackFormView(form._id);
@@ -26,9 +26,16 @@ export interface CliantaConfig {
     /** Plugins to enable (default: all core plugins) */
     plugins?: PluginName[];
 
-    /** Session timeout in milliseconds (default: 30 minutes) */
+    /**
+     * Inactivity in milliseconds after which the next event starts a new
+     * session (default: 30 minutes). Sessions also rotate at midnight and
+     * when the visitor arrives on a different campaign.
+     */
     sessionTimeout?: number;
 
+    /** Called when a new session starts */
+    onSessionChange?: (change: SessionChange) => void;
+
     /** Maximum events to batch before sending (default: 10) */
     batchSize?: number;
 
@@ -38,14 +45,239 @@ export interface CliantaConfig {
     /** Consent configuration */
     consent?: ConsentConfig;
 
-    /** Cookie domain for cross-subdomain tracking */
+    /** Cookie domain for cross-subdomain tracking (e.g. '.example.com') */
     cookieDomain?: string;
 
+    /** Set the Secure attribute on cookies (default: true on HTTPS pages) */
+    cookieSecure?: boolean;
+
+    /** SameSite attribute for cookies (default: 'Lax'; 'None' implies Secure) */
+    cookieSameSite?: CookieSameSite;
+
     /** Use cookies instead of localStorage for visitor ID */
     useCookies?: boolean;
 
     /** Cookie-less mode: use sessionStorage only (no persistent storage) */
     cookielessMode?: boolean;
+
+    /**
+     * Storage for visitor/session IDs, consent, the event queue and plugin
+     * state (default: 'localStorage'). With 'cookie', the event queue is
+     * kept in localStorage.
+     */
+    storage?: StorageOption;
+
+    /** Offline queue persistence configuration */
+    offlineQueue?: OfflineQueueConfig;
+
+    /** Elect one tab to flush events for all open tabs (default: true) */
+    crossTabQueue?: boolean;
+
+    /** Called with events the backend rejected (e.g. failed validation) */
+    onEventsRejected?: (rejected: RejectedEvent[]) => void;
+
+    /** Retry, backoff and circuit breaker settings */
+    transport?: TransportOptions;
+
+    /** Client-side rate limiting and sampling */
+    rateLimit?: RateLimitConfig;
+
+    /**
+     * Server-side (Node.js) mode: no browser storage, plugins or unload
+     * handlers. Each call supplies its visitor, session, URL and device via
+     * an EventContext. Events are kept in memory (or `offlineQueue.store`)
+     * and flushed before the process exits.
+     */
+    serverMode?: boolean;
+
+    /** Cross-domain visitor linking via URL decoration */
+    linker?: LinkerConfig;
+
+    /** First-touch / last-touch campaign attribution */
+    attribution?: AttributionConfig;
+
+    /** Extra referrer classification rules, checked before the built-in ones */
+    referrerRules?: ReferrerRule[];
+
+    /** Runtime event validation, applied in debug mode */
+    eventSchema?: EventSchemaConfig;
+
+    /** PII redaction applied to events before they are queued */
+    redaction?: RedactionConfig;
+
+    /** Rules applied to recorded URLs (event URL, referrer, page, link and download URLs) */
+    urlRules?: UrlRulesConfig;
+}
+
+/** Replaces a whole path segment that matches, e.g. 123 → ':id' */
+export interface PathSegmentRule {
+    match: RegExp;
+    replacement: string;
+}
+
+export interface UrlRulesConfig {
+    /** Query parameters removed from URLs, by name (case-insensitive) or pattern */
+    stripParams?: (string | RegExp)[];
+
+    /** Collapse numeric IDs, UUIDs, hex IDs and opaque tokens in paths into ':id' / ':token' (default: false) */
+    collapseIds?: boolean;
+
+    /** Custom path segment rules, checked before the built-in ones */
+    pathRules?: PathSegmentRule[];
+
+    /** Remove the #fragment (default: false) */
+    dropHash?: boolean;
+}
+
+/** Kinds of personal data the redaction layer detects */
+export type PiiPattern = 'email' | 'phone' | 'creditCard' | 'jwt';
+
+export interface RedactionConfig {
+    /** Scan events for personal data (default: true) */
+    enabled?: boolean;
+
+    /** What to look for in property values, URLs and referrers (default: all) */
+    patterns?: PiiPattern[];
+
+    /** Query-string keys whose values are always redacted (default: token, password, secret and similar) */
+    queryParams?: string[];
+
+    /** Replace matches with a placeholder, or with a placeholder carrying a hash of the value (default: 'mask') */
+    mode?: 'mask' | 'hash';
+
+    /**
+     * Property paths left untouched, optionally limited to one event type:
+     * 'plan.contact.email', or 'identify:email'. Always includes the identify
+     * email and phone.
+     */
+    allowList?: string[];
+}
+
+export interface AttributionConfig {
+    /** Persist and attach attribution (default: true) */
+    enabled?: boolean;
+
+    /** How long the first touch is kept before a new one replaces it (default: 90 days) */
+    firstTouchWindow?: number;
+
+    /** How long a campaign last touch survives later direct visits (default: 30 days) */
+    lastTouchWindow?: number;
+}
+
+export interface LinkerConfig {
+    /** Domains whose links and forms are decorated (subdomains included) */
+    domains?: string[];
+
+    /** URL parameter carrying the token (default: '_cl') */
+    param?: string;
+
+    /** How long a token is accepted after the click, in ms (default: 2 minutes) */
+    ttl?: number;
+
+    /** Adopt IDs from an incoming token on load (default: true) */
+    acceptIncoming?: boolean;
+
+    /** Signing key shared by the linked sites (default: the workspace ID) */
+    secret?: string;
+}
+
+/**
+ * Rate limit priority class. Lower classes may use a smaller share of the
+ * global budget (low 50%, normal 80%, high 100%); critical is never limited
+ * by the global budget.
+ */
+export type EventPriority = 'critical' | 'high' | 'normal' | 'low';
+
+export interface RateLimitConfig {
+    /** Enable rate limiting (default: true) */
+    enabled?: boolean;
+
+    /** Global budget of events per window (default: 100) */
+    maxEvents?: number;
+
+    /** Window length in ms (default: 60000) */
+    windowMs?: number;
+
+    /** Maximum events per window for specific event types */
+    budgets?: Partial<Record<EventType | string, number>>;
+
+    /** Priority class overrides per event type */
+    priorities?: Partial<Record<EventType | string, EventPriority>>;
+
+    /** Sampling rates (0-1) per event type, deterministic per visitor */
+    sampleRates?: Partial<Record<EventType | string, number>>;
+}
+
+/**
+ * Synchronous key-value storage, a subset of the Web Storage API.
+ * Implementations should not throw.
+ */
+export interface StorageAdapter {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+export type CookieSameSite = 'Lax' | 'Strict' | 'None';
+
+export interface CookieOptions {
+    /** Lifetime in days; negative deletes, omitted sets a session cookie */
+    days?: number;
+    domain?: string;
+    secure?: boolean;
+    sameSite?: CookieSameSite;
+}
+
+/** Built-in storage backend, or a custom adapter */
+export type StorageOption = 'localStorage' | 'sessionStorage' | 'cookie' | 'memory' | StorageAdapter;
+
+/** Visitor-lifetime or tab-session-lifetime data */
+export type StorageScope = 'persistent' | 'session';
+
+/** The adapters selected by one `storage` option */
+export interface StorageSet extends Record<StorageScope, StorageAdapter> {
+    /**
+     * Persisted event queue; never cookies, which are capped at ~4 KB and
+     * sent with every request to the site
+     */
+    queue: StorageAdapter;
+
+    /** Visitor ID cookie for `useCookies` */
+    cookie: StorageAdapter;
+}
+
+export interface OfflineQueueConfig {
+    /**
+     * Where unsent events are persisted (default: 'localStorage', which
+     * follows the `storage` option)
+     */
+    storage?: 'localStorage' | 'indexedDB' | 'memory';
+
+    /** Custom event store; takes precedence over `storage` */
+    store?: EventStore;
+
+    /** Maximum events kept in IndexedDB (default: 10000) */
+    maxEvents?: number;
+
+    /** Maximum serialized size of stored events in bytes (default: 20 MB) */
+    maxBytes?: number;
+
+    /** Maximum age of a stored event in milliseconds (default: 7 days) */
+    maxAge?: number;
+}
+
+/**
+ * Pluggable persistence for queued events (e.g. Redis or a file on a server).
+ * Events are appended when queued and removed once the backend has
+ * acknowledged them; `load` returns what is left after a restart.
+ * Like the built-in IndexedDB store, implementations should log and swallow
+ * their own errors rather than reject.
+ */
+export interface EventStore {
+    load(limit?: number): Promise<TrackingEvent[]>;
+    append(events: TrackingEvent[]): Promise<void>;
+    remove(events: TrackingEvent[]): Promise<void>;
+    clear(): Promise<void>;
 }
 
 export type PluginName =
@@ -76,6 +308,66 @@ export interface ConsentConfig {
 
     /** Anonymous mode: track without visitor ID until explicit consent */
     anonymousMode?: boolean;
+
+    /** Treat Global Privacy Control (navigator.globalPrivacyControl) as an opt-out (default: true) */
+    respectGpc?: boolean;
+
+    /** Treat Do Not Track (navigator.doNotTrack) as an opt-out (default: false) */
+    respectDnt?: boolean;
+
+    /** Categories a privacy signal revokes: 'marketing' only, or 'all' (default: 'marketing') */
+    signalScope?: 'marketing' | 'all';
+
+    /**
+     * Let an explicit grant override the privacy signal, e.g. a user opting
+     * back in to marketing under CCPA (default: true)
+     */
+    allowSignalOverride?: boolean;
+
+    /**
+     * Read consent from an IAB TCF v2.2 CMP (`__tcfapi`); `true` uses the
+     * default purpose mapping (default: false)
+     */
+    tcf?: boolean | TcfConfig;
+
+    /** Send Google Consent Mode v2 updates when consent changes (default: false) */
+    googleConsentMode?: boolean;
+}
+
+export interface TcfConfig {
+    /**
+     * TCF purpose IDs per consent category; a category is granted when every
+     * listed purpose is consented (default: analytics [1, 8, 9],
+     * marketing [1, 2, 3, 4, 7], personalization [1, 5, 6])
+     */
+    purposes?: Partial<Record<keyof ConsentState, number[]>>;
+
+    /** Also require consent for this IAB Global Vendor List ID */
+    vendorId?: number;
+}
+
+export type GoogleConsentStatus = 'granted' | 'denied';
+
+/** Google Consent Mode v2 consent types */
+export interface GoogleConsentModeState {
+    ad_storage: GoogleConsentStatus;
+    analytics_storage: GoogleConsentStatus;
+    ad_user_data: GoogleConsentStatus;
+    ad_personalization: GoogleConsentStatus;
+}
+
+/** Browser privacy signal */
+export type PrivacySignal = 'gpc' | 'dnt';
+
+export interface PrivacySignalStatus {
+    /** Signal detected in the browser */
+    signal: PrivacySignal;
+
+    /** Categories the signal revoked */
+    revoked: (keyof ConsentState)[];
+
+    /** An explicit grant overrides the signal */
+    overridden: boolean;
 }
 
 export interface ConsentState {
@@ -106,15 +398,31 @@ export type EventType =
     | 'error'
     | 'performance'
     | 'time_on_page'
+    | 'session_start'
+    | 'session_end'
+    | 'identify'
+    | 'alias'
     | 'custom';
 
 export interface TrackingEvent {
+    /**
+     * Unique event identifier, generated when the event is tracked and kept
+     * across retries so the backend can deduplicate deliveries
+     */
+    eventId?: string;
+
     /** Workspace/project ID */
     workspaceId: string;
 
     /** Anonymous visitor identifier */
     visitorId: string;
 
+    /** Known user ID, once the visitor is identified */
+    userId?: string;
+
+    /** Active group ID per group type, e.g. `{ company: 'acme' }` */
+    groups?: Record<string, string>;
+
     /** Session identifier */
     sessionId: string;
 
@@ -136,14 +444,44 @@ export interface TrackingEvent {
     /** Device information */
     device: DeviceInfo;
 
-    /** UTM parameters */
+    /** UTM parameters (the last touch's when the URL has none) */
     utm?: UTMParams;
 
+    /** First-touch and last-touch attribution */
+    attribution?: Attribution;
+
     /** ISO timestamp */
     timestamp: string;
 
     /** SDK version */
     sdkVersion: string;
+
+    /** Sampling rate applied to this event type, when below 1 */
+    sampleRate?: number;
+
+    /** Schema problems found in debug mode, when `eventSchema.onInvalid` is 'tag' */
+    schemaErrors?: string[];
+}
+
+/** Fields shared by every event in a batch, hoisted by the v2 envelope */
+export type SharedEventContext = Pick<
+    TrackingEvent,
+    'workspaceId' | 'visitorId' | 'userId' | 'groups' | 'sessionId' | 'device' | 'utm' | 'attribution' | 'sdkVersion'
+>;
+
+/**
+ * Event inside a v2 envelope: shared fields appear only when they differ,
+ * and are null when the event lacks a field the context has
+ */
+export type CompactEvent = Omit<TrackingEvent, keyof SharedEventContext> & {
+    [K in keyof SharedEventContext]?: SharedEventContext[K] | null;
+};
+
+/** Compact v2 batch wire format */
+export interface BatchEnvelopeV2 {
+    v: 2;
+    context: SharedEventContext;
+    events: CompactEvent[];
 }
 
 export interface DeviceInfo {
@@ -161,11 +499,83 @@ export interface UTMParams {
     utmContent?: string;
 }
 
+/** Ad platform click IDs */
+export interface ClickIds {
+    gclid?: string;
+    fbclid?: string;
+    msclkid?: string;
+    liFatId?: string;
+}
+
+export type Channel = 'organic' | 'paid' | 'social' | 'email' | 'ai' | 'referral' | 'direct';
+
+/** Where traffic came from */
+export interface TrafficSource {
+    /** e.g. 'google', 'linkedin', 'chatgpt', or the referrer domain */
+    source: string;
+    /** e.g. 'organic', 'cpc', 'social', 'email', 'referral', '(none)' */
+    medium: string;
+    channel: Channel;
+    /** Referrer hostname without "www." */
+    referrerDomain?: string;
+}
+
+/** Traffic source of a page load, with the campaign parameters it carried */
+export interface PageTraffic extends TrafficSource {
+    utm?: UTMParams;
+    clickIds?: ClickIds;
+}
+
+/**
+ * Referrer classification rule. Hosts ending in "." match any TLD
+ * ("google." → google.co.uk); others match the domain and its subdomains.
+ * A utm_source equal to `source` or matching a host also applies the rule.
+ */
+export interface ReferrerRule {
+    hosts: string[];
+    source: string;
+    medium: string;
+    channel: Channel;
+}
+
+/** A visit that brought the visitor to the site */
+export interface TouchPoint extends PageTraffic {
+    landingPage: string;
+    /** ISO timestamp */
+    timestamp: string;
+}
+
+/** Traffic source of the current session, recorded when it starts */
+export interface SessionContext extends TrafficSource {
+    /** utm_campaign the session started with */
+    campaign?: string;
+    landingPage: string;
+    /** ISO timestamp */
+    startedAt: string;
+}
+
+/** Why a new session started */
+export type SessionChangeReason = 'new' | 'timeout' | 'midnight' | 'campaign' | 'reset';
+
+export interface SessionChange {
+    sessionId: string;
+    /** Session that ended, if it was still known to this tab */
+    previousSessionId: string | null;
+    reason: SessionChangeReason;
+    context: SessionContext;
+}
+
+export interface Attribution {
+    firstTouch: TouchPoint;
+    lastTouch: TouchPoint;
+}
+
 // ============================================
 // IDENTIFY TYPES
 // ============================================
 
 export interface UserTraits {
+    email?: string;
     firstName?: string;
     lastName?: string;
     company?: string;
@@ -174,11 +584,30 @@ export interface UserTraits {
     [key: string]: unknown;
 }
 
+/** Traits of an account or other group, matching CRM Company fields where they overlap */
+export interface GroupTraits {
+    name?: string;
+    industry?: string;
+    website?: string;
+    companySize?: string;
+    [key: string]: unknown;
+}
+
+export interface GroupPayload {
+    workspaceId: string;
+    visitorId: string;
+    userId?: string;
+    groupType: string;
+    groupId: string;
+    traits: GroupTraits;
+}
+
 export interface IdentifyPayload {
     workspaceId: string;
     visitorId: string;
     email: string;
     properties: UserTraits;
+    attribution?: Attribution;
 }
 
 // ============================================
@@ -200,19 +629,123 @@ export interface PluginFactory {
     (config?: Record<string, unknown>): Plugin;
 }
 
+// ============================================
+// MIDDLEWARE TYPES
+// ============================================
+
+export interface MiddlewareContext {
+    /** Tracker that produced the event */
+    tracker: TrackerCore;
+
+    /** Where the event entered the pipeline */
+    source: 'track' | 'consent_buffer';
+}
+
+/**
+ * Event middleware. Mutate the event in place or return a replacement;
+ * return null to drop it. May be async, but events still waiting on it when
+ * the page unloads miss the unload flush and are lost.
+ */
+export type EventMiddleware = (
+    event: TrackingEvent,
+    context: MiddlewareContext
+) => TrackingEvent | null | void | Promise<TrackingEvent | null | void>;
+
+// ============================================
+// EVENT SCHEMA TYPES
+// ============================================
+
+/** Property types understood by the runtime validator */
+export type PropertyTypeName = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+/**
+ * Rule for one event property: a type name ("?" suffix for optional
+ * properties, e.g. 'string?'), or the list of allowed values
+ */
+export type PropertyRule = PropertyTypeName | `${PropertyTypeName}?` | readonly (string | number | boolean)[];
+
+/** Runtime event schema: event name → property name → rule */
+export type EventSchema = Record<string, Record<string, PropertyRule>>;
+
+/**
+ * Event catalogue for typed tracking: event name → properties.
+ * Pass one as the type parameter of `clianta()` / `Tracker`.
+ */
+export type EventCatalog = Record<string, Record<string, unknown>>;
+
+interface PropertyTypes {
+    string: string;
+    number: number;
+    boolean: boolean;
+    object: Record<string, unknown>;
+    array: unknown[];
+    any: unknown;
+}
+
+type RuleValue<R> = R extends readonly (infer V)[]
+    ? V
+    : R extends `${infer T extends PropertyTypeName}?`
+      ? PropertyTypes[T]
+      : R extends PropertyTypeName
+        ? PropertyTypes[R]
+        : never;
+
+type OptionalRuleKeys<P> = { [K in keyof P]: P[K] extends `${string}?` ? K : never }[keyof P];
+
+/** Event catalogue described by a runtime schema */
+export type InferEventCatalog<S extends EventSchema> = {
+    [E in keyof S]: { -readonly [K in Exclude<keyof S[E], OptionalRuleKeys<S[E]>>]: RuleValue<S[E][K]> } & {
+        -readonly [K in OptionalRuleKeys<S[E]>]?: RuleValue<S[E][K]>;
+    };
+};
+
+/** Properties and context arguments of `track()`; properties are required when the event has required ones */
+export type TrackArgs<P> = {} extends P
+    ? [properties?: P, context?: EventContext]
+    : [properties: P, context?: EventContext];
+
+export interface EventSchemaConfig {
+    /** Property rules per event name; events not listed are not checked */
+    events?: EventSchema;
+
+    /** What to do with events that don't match, in debug mode (default: 'warn') */
+    onInvalid?: 'warn' | 'drop' | 'tag';
+
+    /** Also flag custom events whose name is not in `events` (default: false) */
+    strict?: boolean;
+}
+
 // ============================================
 // CORE TRACKER INTERFACE
 // ============================================
 
-export interface TrackerCore {
+export interface RegisterOptions {
+    /** Keep the properties in storage so they apply after a reload (default: false) */
+    persist?: boolean;
+}
+
+export interface TrackerCore<TEvents extends EventCatalog = EventCatalog> {
     /** Track a custom event */
-    track(eventType: EventType | string, eventName: string, properties?: Record<string, unknown>): void;
+    track<K extends keyof TEvents & string>(
+        eventType: EventType | string,
+        eventName: K,
+        ...args: TrackArgs<TEvents[K]>
+    ): void;
+
+    /** Identify a visitor by user ID or email */
+    identify(userIdOrEmail: string, traits?: UserTraits, context?: EventContext): void;
 
-    /** Identify a visitor */
-    identify(email: string, traits?: UserTraits): void;
+    /** Link a previous ID to the current user */
+    alias(previousId: string, context?: EventContext): void;
+
+    /** Associate the visitor and their later events with a group, e.g. a company account */
+    group(groupType: string, groupId: string, traits?: GroupTraits, context?: EventContext): void;
+
+    /** Get the identified user ID */
+    getUserId(): string | null;
 
     /** Track a page view */
-    page(name?: string, properties?: Record<string, unknown>): void;
+    page(name?: string, properties?: Record<string, unknown>, context?: EventContext): void;
 
     /** Update consent state */
     consent(state: ConsentState): void;
@@ -226,6 +759,18 @@ export interface TrackerCore {
     /** Get session ID */
     getSessionId(): string;
 
+    /** Get the traffic source of the current session */
+    getSessionContext(): SessionContext | null;
+
+    /** Register properties merged into every event */
+    register(properties: Record<string, unknown>, options?: RegisterOptions): void;
+
+    /** Register properties whose keys are not registered yet */
+    registerOnce(properties: Record<string, unknown>, options?: RegisterOptions): void;
+
+    /** Remove a registered property */
+    unregister(key: string): void;
+
     /** Force flush event queue */
     flush(): Promise<void>;
 
@@ -238,28 +783,152 @@ export interface TrackerCore {
     /** Get workspace ID */
     getWorkspaceId(): string;
 
+    /** Get the storage selected by this tracker's `storage` option, for plugin state */
+    getStorage(scope?: StorageScope): StorageAdapter;
+
     /** Delete all stored user data (GDPR right-to-erasure) */
     deleteData(): void;
 
     /** Get current consent state */
     getConsentState(): ConsentState;
+
+    /** Register an event middleware, returns an unsubscribe function */
+    use(middleware: EventMiddleware): () => void;
+
+    /** Get internal state for troubleshooting */
+    getDiagnostics(): TrackerDiagnostics;
+
+    /** Add the cross-domain linker token to a URL on a linked domain */
+    decorateUrl(url: string): string;
+}
+
+/**
+ * Per-call event context. Required in server mode, where there is no
+ * browser to read IDs, URL and device from; overrides those values in the
+ * browser.
+ */
+export interface EventContext {
+    visitorId?: string;
+    userId?: string;
+    groups?: Record<string, string>;
+    sessionId?: string;
+    url?: string;
+    referrer?: string;
+    device?: Partial<DeviceInfo>;
+    utm?: UTMParams;
+}
+
+export interface TrackerDiagnostics {
+    /** Events waiting to be sent */
+    queueLength: number;
+
+    /** Delivery circuit breaker state */
+    circuit: CircuitBreakerSnapshot;
+
+    /** GPC / DNT signal detected in the browser, null when there is none or it is not respected */
+    privacySignal: PrivacySignalStatus | null;
+
+    /** Latest IAB TCF consent string, when `consent.tcf` is enabled */
+    tcString: string | null;
 }
 
 // ============================================
 // TRANSPORT TYPES
 // ============================================
 
-export interface TransportConfig {
-    apiEndpoint: string;
+export interface TransportOptions {
+    /** Attempts per request, including the first (default: 3) */
     maxRetries?: number;
+
+    /** Base delay for exponential backoff in ms (default: 1000) */
     retryDelay?: number;
+
+    /** Upper bound for a single backoff or Retry-After wait in ms (default: 30000) */
+    maxRetryDelay?: number;
+
+    /** Randomize backoff delays with full jitter (default: true) */
+    jitter?: boolean;
+
+    /** Request timeout in ms (default: 10000) */
     timeout?: number;
+
+    /** Circuit breaker that pauses sending after repeated failures */
+    circuitBreaker?: CircuitBreakerConfig;
+
+    /** Compress large event batches */
+    compression?: CompressionConfig;
+
+    /**
+     * Batch wire format. 'auto' sends v1 until the backend opts in to v2 via
+     * the X-Clianta-Batch-Version response header (default: 'auto')
+     */
+    batchVersion?: 1 | 2 | 'auto';
+}
+
+export interface CompressionConfig {
+    /**
+     * Enable compression when CompressionStream is available. Only turn this
+     * on when the backend decodes compressed request bodies (default: false)
+     */
+    enabled?: boolean;
+
+    /** Minimum payload size in bytes before compressing (default: 1024) */
+    threshold?: number;
+
+    /** Compression format (default: 'gzip') */
+    format?: 'gzip' | 'deflate';
+}
+
+export interface TransportConfig extends TransportOptions {
+    apiEndpoint: string;
+    /** Sent as a Bearer token for authenticated ingestion */
+    authToken?: string;
+}
+
+export interface CircuitBreakerConfig {
+    /** Enable the circuit breaker (default: true) */
+    enabled?: boolean;
+
+    /** Consecutive failed requests before the circuit opens (default: 5) */
+    failureThreshold?: number;
+
+    /** How long the circuit stays open in ms (default: 30000) */
+    cooldown?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerSnapshot {
+    state: CircuitState;
+    /** Consecutive failures since the last success */
+    failures: number;
+    /** Epoch ms when an open circuit will allow a probe, null if not open */
+    openUntil: number | null;
 }
 
 export interface TransportResult {
     success: boolean;
     status?: number;
     error?: Error;
+    /** Parsed JSON response body, if any */
+    data?: unknown;
+    /** Per-event results when the backend returns a structured batch response */
+    batch?: BatchDeliveryResult;
+}
+
+/**
+ * Structured response from the track endpoint.
+ * Entries are indices into the sent batch.
+ */
+export interface BatchDeliveryResult {
+    accepted: number[];
+    rejected: { index: number; reason: string }[];
+    retryable: number[];
+}
+
+export interface RejectedEvent {
+    event: TrackingEvent;
+    reason: string;
 }
 
 // ============================================
@@ -271,6 +940,23 @@ export interface QueueConfig {
     flushInterval: number;
     maxQueueSize?: number;
     storageKey?: string;
+    /** Where the queue is persisted without IndexedDB (default: the default queue storage) */
+    storage?: StorageAdapter;
+    offline?: OfflineQueueConfig;
+    /** Coordinate flushing across tabs so only the leader tab sends */
+    crossTab?: boolean;
+    /** Called with events the backend permanently rejected */
+    onRejected?: (rejected: RejectedEvent[]) => void;
+    rateLimit?: RateLimitConfig;
+    /** Flush before a Node.js process exits */
+    flushOnExit?: boolean;
+
+    /**
+     * Suffix for the persisted queue key, leader lock, tab channel and
+     * IndexedDB database, so trackers sending to different destinations
+     * don't pick up each other's events
+     */
+    scope?: string;
 }
 
 // ============================================
@@ -4,6 +4,7 @@
  */
 
 import { STORAGE_KEYS, DOWNLOAD_EXTENSIONS } from '../core/config';
+import type { CookieOptions, StorageAdapter, StorageOption, StorageScope, StorageSet } from '../types';
 
 // ============================================
 // UUID GENERATION
@@ -26,6 +27,23 @@ export function generateUUID(): string {
     });
 }
 
+/**
+ * Fast non-cryptographic string hash (cyrb53)
+ * Deterministic across page loads, returned as base-36
+ */
+export function hashString(input: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
 // ============================================
 // STORAGE UTILITIES
 // ============================================
@@ -90,55 +108,205 @@ export function setSessionStorage(key: string, value: string): boolean {
 
 /**
  * Get or set a cookie
+ * Values are URI-encoded. SameSite=None cookies are always Secure, as
+ * browsers reject them otherwise.
  */
-export function cookie(name: string, value?: string, days?: number): string | null {
+export function cookie(name: string, value?: string, options: CookieOptions = {}): string | null {
     if (typeof document === 'undefined') return null;
 
     // Get cookie
     if (value === undefined) {
         const match = document.cookie.match(new RegExp('(^| )' + name + '=([^;]+)'));
-        return match ? match[2] : null;
+        if (!match) return null;
+        try {
+            return decodeURIComponent(match[2]);
+        } catch {
+            return match[2];
+        }
     }
 
     // Set cookie
-    let expires = '';
-    if (days) {
+    let attributes = '; path=/';
+    if (options.days) {
         const date = new Date();
-        date.setTime(date.getTime() + days * 24 * 60 * 60 * 1000);
-        expires = '; expires=' + date.toUTCString();
+        date.setTime(date.getTime() + options.days * 24 * 60 * 60 * 1000);
+        attributes += '; expires=' + date.toUTCString();
+    }
+    if (options.domain) {
+        attributes += '; domain=' + options.domain;
     }
-    document.cookie = name + '=' + value + expires + '; path=/; SameSite=Lax';
+    const sameSite = options.sameSite ?? 'Lax';
+    attributes += '; SameSite=' + sameSite;
+    if (options.secure || sameSite === 'None') {
+        attributes += '; Secure';
+    }
+
+    document.cookie = name + '=' + encodeURIComponent(value) + attributes;
     return value;
 }
 
+// ============================================
+// STORAGE ADAPTERS
+// ============================================
+
+/**
+ * Wrap a Web Storage object, which may be missing or throw when blocked
+ */
+function createWebStorage(getStore: () => Storage): StorageAdapter {
+    return {
+        getItem(key) {
+            try {
+                return getStore().getItem(key);
+            } catch {
+                return null;
+            }
+        },
+        setItem(key, value) {
+            try {
+                getStore().setItem(key, value);
+            } catch {
+                // Storage not available or blocked
+            }
+        },
+        removeItem(key) {
+            try {
+                getStore().removeItem(key);
+            } catch {
+                // Storage not available or blocked
+            }
+        },
+    };
+}
+
+/**
+ * In-memory storage (lost on reload; for sandboxed iframes, servers and tests)
+ */
+export function createMemoryStorage(): StorageAdapter {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => {
+            items.set(key, value);
+        },
+        removeItem: (key) => {
+            items.delete(key);
+        },
+    };
+}
+
+/**
+ * Cookie storage
+ * Cookies last a year unless `days` is given, and are removed with the same
+ * domain they were written with. With a domain, a host-only cookie from
+ * before the domain was configured is removed too.
+ */
+export function createCookieStorage(options: CookieOptions = {}): StorageAdapter {
+    const attributes = { days: 365, ...options };
+    return {
+        getItem: (key) => cookie(key),
+        setItem: (key, value) => {
+            cookie(key, value, attributes);
+        },
+        removeItem: (key) => {
+            cookie(key, '', { ...attributes, days: -1 });
+            if (attributes.domain) {
+                cookie(key, '', { ...attributes, domain: undefined, days: -1 });
+            }
+        },
+    };
+}
+
+const localStorageAdapter = createWebStorage(() => localStorage);
+const sessionStorageAdapter = createWebStorage(() => sessionStorage);
+
+/**
+ * Create the adapters for a `storage` option: IDs, consent, the event queue
+ * and plugin state.
+ * 'localStorage' and 'cookie' keep session-scoped data in sessionStorage;
+ * every other option stores both scopes in the same place. With 'cookie',
+ * the event queue stays in localStorage.
+ * @param cookieOptions - domain, Secure and SameSite for SDK cookies
+ */
+export function createStorage(option: StorageOption = 'localStorage', cookieOptions: CookieOptions = {}): StorageSet {
+    const cookie = createCookieStorage(cookieOptions);
+
+    switch (option) {
+        case 'localStorage':
+            return { persistent: localStorageAdapter, session: sessionStorageAdapter, queue: localStorageAdapter, cookie };
+        case 'cookie':
+            return { persistent: cookie, session: sessionStorageAdapter, queue: localStorageAdapter, cookie };
+        case 'sessionStorage':
+            return {
+                persistent: sessionStorageAdapter,
+                session: sessionStorageAdapter,
+                queue: sessionStorageAdapter,
+                cookie,
+            };
+        case 'memory': {
+            const memory = createMemoryStorage();
+            return { persistent: memory, session: memory, queue: memory, cookie };
+        }
+        default:
+            return { persistent: option, session: option, queue: option, cookie };
+    }
+}
+
+/**
+ * Default adapters, for modules used without a tracker's own storage
+ * (each Tracker creates its own from its `storage` option)
+ */
+let defaultStorage: StorageSet = createStorage();
+
+/**
+ * Select the default storage
+ */
+export function setStorage(option: StorageOption = 'localStorage', cookieOptions: CookieOptions = {}): void {
+    defaultStorage = createStorage(option, cookieOptions);
+}
+
+/**
+ * Get a default storage adapter
+ * @param scope - 'persistent' (visitor-lifetime) or 'session' (tab-lifetime) data
+ */
+export function getStorage(scope: StorageScope = 'persistent'): StorageAdapter {
+    return defaultStorage[scope];
+}
+
+/**
+ * Get all default storage adapters
+ */
+export function getStorageSet(): StorageSet {
+    return defaultStorage;
+}
+
 // ============================================
 // VISITOR & SESSION MANAGEMENT
 // ============================================
 
 /**
  * Get or create a persistent visitor ID
+ * @param linkedId - ID carried over from a linked domain, adopted instead
  */
-export function getOrCreateVisitorId(useCookies = false): string {
+export function getOrCreateVisitorId(
+    useCookies = false,
+    linkedId?: string,
+    storageSet: StorageSet = defaultStorage
+): string {
     const key = STORAGE_KEYS.VISITOR_ID;
+    const storage = useCookies ? storageSet.cookie : storageSet.persistent;
 
-    // Try to get existing ID
-    let visitorId: string | null = null;
-
-    if (useCookies) {
-        visitorId = cookie(key);
-    } else {
-        visitorId = getLocalStorage(key);
+    if (linkedId) {
+        storage.setItem(key, linkedId);
+        return linkedId;
     }
 
+    // Try to get existing ID
+    let visitorId = storage.getItem(key);
+
     // Create new ID if not found
     if (!visitorId) {
         visitorId = generateUUID();
-
-        if (useCookies) {
-            cookie(key, visitorId, 365); // 1 year
-        } else {
-            setLocalStorage(key, visitorId);
-        }
+        storage.setItem(key, visitorId);
     }
 
     return visitorId;
@@ -146,23 +314,31 @@ export function getOrCreateVisitorId(useCookies = false): string {
 
 /**
  * Get or create a session ID (expires after timeout)
+ * @param linkedId - session carried over from a linked domain, adopted instead
  */
-export function getOrCreateSessionId(timeout: number): string {
+export function getOrCreateSessionId(
+    timeout: number,
+    linkedId?: string,
+    now = Date.now(),
+    storage: StorageAdapter = getStorage('session')
+): string {
     const sidKey = STORAGE_KEYS.SESSION_ID;
     const tsKey = STORAGE_KEYS.SESSION_TIMESTAMP;
 
-    let sessionId = getSessionStorage(sidKey);
-    const lastActivity = parseInt(getSessionStorage(tsKey) || '0', 10);
-    const now = Date.now();
+    let sessionId = storage.getItem(sidKey);
+    const lastActivity = parseInt(storage.getItem(tsKey) || '0', 10);
 
-    // Check if session expired
-    if (!sessionId || now - lastActivity > timeout) {
+    if (linkedId) {
+        sessionId = linkedId;
+        storage.setItem(sidKey, sessionId);
+    } else if (!sessionId || now - lastActivity > timeout) {
+        // Session expired
         sessionId = generateUUID();
-        setSessionStorage(sidKey, sessionId);
+        storage.setItem(sidKey, sessionId);
     }
 
     // Update last activity
-    setSessionStorage(tsKey, now.toString());
+    storage.setItem(tsKey, now.toString());
 
     return sessionId;
 }
@@ -170,25 +346,15 @@ export function getOrCreateSessionId(timeout: number): string {
 /**
  * Reset visitor and session IDs
  */
-export function resetIds(useCookies = false): void {
-    const visitorKey = STORAGE_KEYS.VISITOR_ID;
-
-    if (useCookies) {
-        cookie(visitorKey, '', -1); // Delete cookie
-    } else {
-        try {
-            localStorage.removeItem(visitorKey);
-        } catch {
-            // Ignore
-        }
-    }
-
-    try {
-        sessionStorage.removeItem(STORAGE_KEYS.SESSION_ID);
-        sessionStorage.removeItem(STORAGE_KEYS.SESSION_TIMESTAMP);
-    } catch {
-        // Ignore
-    }
+export function resetIds(useCookies = false, storageSet: StorageSet = defaultStorage): void {
+    const storage = useCookies ? storageSet.cookie : storageSet.persistent;
+    storage.removeItem(STORAGE_KEYS.VISITOR_ID);
+
+    const session = storageSet.session;
+    session.removeItem(STORAGE_KEYS.SESSION_ID);
+    session.removeItem(STORAGE_KEYS.SESSION_TIMESTAMP);
+    session.removeItem(STORAGE_KEYS.SESSION_CONTEXT);
+    session.removeItem(STORAGE_KEYS.SESSION_STATS);
 }
 
 // ============================================
@@ -2,7 +2,7 @@
  * ConsentManager Tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock localStorage
 const localStorageMock = {
@@ -227,4 +227,98 @@ describe('ConsentManager', () => {
             expect(callback).not.toHaveBeenCalled();
         });
     });
+
+    describe('privacy signals', () => {
+        const originalNavigator = globalThis.navigator;
+
+        afterEach(() => {
+            vi.stubGlobal('navigator', originalNavigator);
+        });
+
+        const stored = () => JSON.parse(localStorageMock.store['mb_consent']);
+
+        it('should revoke marketing when Global Privacy Control is set', () => {
+            vi.stubGlobal('navigator', { globalPrivacyControl: true });
+            const manager = new ConsentManager({
+                defaultConsent: { analytics: true, marketing: true, personalization: true },
+            });
+
+            expect(manager.getState()).toEqual({ analytics: true, marketing: false, personalization: true });
+            expect(manager.canTrack()).toBe(true);
+            expect(manager.getPrivacySignal()).toEqual({ signal: 'gpc', revoked: ['marketing'], overridden: false });
+        });
+
+        it('should revoke all categories with signalScope "all"', () => {
+            vi.stubGlobal('navigator', { globalPrivacyControl: true });
+            const manager = new ConsentManager({ signalScope: 'all' });
+
+            expect(manager.canTrack()).toBe(false);
+            expect(manager.getPrivacySignal()?.revoked).toEqual(['analytics', 'marketing', 'personalization']);
+        });
+
+        it('should only respect Do Not Track when enabled', () => {
+            vi.stubGlobal('navigator', { doNotTrack: '1' });
+            const defaultConsent = { analytics: true, marketing: true };
+
+            expect(new ConsentManager({ defaultConsent }).getPrivacySignal()).toBeNull();
+            expect(new ConsentManager({ defaultConsent }).hasConsent('marketing')).toBe(true);
+
+            const manager = new ConsentManager({ defaultConsent, respectDnt: true });
+            expect(manager.getPrivacySignal()?.signal).toBe('dnt');
+            expect(manager.hasConsent('marketing')).toBe(false);
+        });
+
+        it('should ignore GPC when respectGpc is false', () => {
+            vi.stubGlobal('navigator', { globalPrivacyControl: true });
+            const manager = new ConsentManager({ respectGpc: false, defaultConsent: { marketing: true } });
+
+            expect(manager.getPrivacySignal()).toBeNull();
+            expect(manager.hasConsent('marketing')).toBe(true);
+        });
+
+        it('should apply the signal over consent given before it', () => {
+            localStorageMock.store['mb_consent'] = JSON.stringify({
+                state: { analytics: true, marketing: true },
+                timestamp: Date.now(),
+                version: 1,
+            });
+            vi.stubGlobal('navigator', { globalPrivacyControl: true });
+
+            expect(new ConsentManager().hasConsent('marketing')).toBe(false);
+        });
+
+        it('should let an explicit grant override the signal and record it', () => {
+            vi.stubGlobal('navigator', { globalPrivacyControl: true });
+            const manager = new ConsentManager();
+            manager.grant({ marketing: true });
+
+            expect(manager.hasConsent('marketing')).toBe(true);
+            expect(manager.getPrivacySignal()?.overridden).toBe(true);
+            expect(stored()).toMatchObject({ state: { marketing: true }, signal: 'gpc' });
+
+            // The override survives the next page load
+            const reloaded = new ConsentManager();
+            expect(reloaded.hasConsent('marketing')).toBe(true);
+            expect(reloaded.getPrivacySignal()?.overridden).toBe(true);
+        });
+
+        it('should keep the signal in force when overrides are not allowed', () => {
+            vi.stubGlobal('navigator', { globalPrivacyControl: true });
+            const manager = new ConsentManager({ allowSignalOverride: false });
+            manager.grant({ marketing: true, personalization: true });
+
+            expect(manager.getState()).toMatchObject({ marketing: false, personalization: true });
+            expect(manager.getPrivacySignal()?.overridden).toBe(false);
+        });
+
+        it('should re-apply the signal on reset', () => {
+            vi.stubGlobal('navigator', { globalPrivacyControl: true });
+            const manager = new ConsentManager({ defaultConsent: { analytics: true, marketing: true } });
+            manager.grant({ marketing: true });
+            manager.reset();
+
+            expect(manager.hasConsent('marketing')).toBe(false);
+            expect(manager.getPrivacySignal()?.overridden).toBe(false);
+        });
+    });
 });
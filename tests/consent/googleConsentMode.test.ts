@@ -0,0 +1,53 @@
+/**
+ * Google Consent Mode Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConsentManager, connectGoogleConsentMode } from '../../src/consent';
+import { setStorage } from '../../src/utils';
+
+describe('Google Consent Mode', () => {
+    beforeEach(() => {
+        setStorage('memory');
+    });
+
+    afterEach(() => {
+        setStorage();
+        vi.unstubAllGlobals();
+    });
+
+    it('should send the current consent, then every change, through gtag', () => {
+        const gtag = vi.fn();
+        vi.stubGlobal('window', { gtag });
+        const manager = new ConsentManager();
+
+        const disconnect = connectGoogleConsentMode(manager);
+        manager.grant({ marketing: true });
+        disconnect();
+        manager.revoke(['analytics']);
+
+        expect(gtag.mock.calls).toEqual([
+            [
+                'consent',
+                'update',
+                { ad_storage: 'denied', analytics_storage: 'granted', ad_user_data: 'denied', ad_personalization: 'denied' },
+            ],
+            [
+                'consent',
+                'update',
+                { ad_storage: 'granted', analytics_storage: 'granted', ad_user_data: 'granted', ad_personalization: 'granted' },
+            ],
+        ]);
+    });
+
+    it('should push onto the dataLayer when gtag is not defined', () => {
+        const win: { dataLayer?: unknown[] } = {};
+        vi.stubGlobal('window', win);
+
+        connectGoogleConsentMode(new ConsentManager());
+
+        const command = win.dataLayer?.[0] as IArguments;
+        expect(Object.prototype.toString.call(command)).toBe('[object Arguments]');
+        expect(Array.from(command)).toEqual(['consent', 'update', expect.objectContaining({ analytics_storage: 'granted' })]);
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * TCF Adapter Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TcfAdapter, mapTcfConsent } from '../../src/consent';
+
+describe('mapTcfConsent', () => {
+    const allPurposes = Object.fromEntries(Array.from({ length: 11 }, (_, i) => [i + 1, true]));
+
+    it('should grant a category only when all of its purposes are consented', () => {
+        const consents = { ...allPurposes, 3: false };
+
+        expect(mapTcfConsent(consents)).toEqual({ analytics: true, marketing: false, personalization: true });
+    });
+
+    it('should use custom purpose mappings', () => {
+        const state = mapTcfConsent({ 1: true, 10: true }, { purposes: { analytics: [1, 10] } });
+
+        expect(state).toEqual({ analytics: true });
+    });
+
+    it('should require vendor consent when a vendor ID is set', () => {
+        expect(mapTcfConsent(allPurposes, { vendorId: 755 }, { 755: false }).analytics).toBe(false);
+        expect(mapTcfConsent(allPurposes, { vendorId: 755 }, { 755: true }).analytics).toBe(true);
+    });
+});
+
+describe('TcfAdapter', () => {
+    type Listener = (tcData: Record<string, unknown>, success: boolean) => void;
+    let listener: Listener | null;
+    const tcfapi = vi.fn((command: string, _version: number, callback: Listener) => {
+        if (command === 'addEventListener') listener = callback;
+    });
+
+    const emit = (tcData: Record<string, unknown>): void => {
+        listener?.({ listenerId: 7, gdprApplies: true, tcString: 'CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA', ...tcData }, true);
+    };
+
+    afterEach(() => {
+        listener = null;
+        tcfapi.mockClear();
+        vi.unstubAllGlobals();
+    });
+
+    it('should report mapped consent when the user makes a choice', () => {
+        vi.stubGlobal('window', { __tcfapi: tcfapi });
+        const onConsent = vi.fn();
+        const adapter = new TcfAdapter({}, onConsent);
+
+        expect(adapter.start()).toBe(true);
+        emit({ eventStatus: 'cmpuishown' });
+        expect(onConsent).not.toHaveBeenCalled();
+
+        emit({ eventStatus: 'useractioncomplete', purpose: { consents: { 1: true, 8: true, 9: true } } });
+        expect(onConsent).toHaveBeenCalledWith({ analytics: true, marketing: false, personalization: false });
+        expect(adapter.getTCString()).toBe('CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA');
+    });
+
+    it('should leave consent alone when GDPR does not apply', () => {
+        vi.stubGlobal('window', { __tcfapi: tcfapi });
+        const onConsent = vi.fn();
+        new TcfAdapter({}, onConsent).start();
+
+        emit({ eventStatus: 'tcloaded', gdprApplies: false });
+
+        expect(onConsent).not.toHaveBeenCalled();
+    });
+
+    it('should remove its listener on stop', () => {
+        vi.stubGlobal('window', { __tcfapi: tcfapi });
+        const adapter = new TcfAdapter({}, vi.fn());
+        adapter.start();
+        emit({ eventStatus: 'tcloaded' });
+
+        adapter.stop();
+
+        expect(tcfapi).toHaveBeenLastCalledWith('removeEventListener', 2, expect.any(Function), 7);
+    });
+
+    it('should not start without a CMP', () => {
+        vi.stubGlobal('window', {});
+
+        expect(new TcfAdapter({}, vi.fn()).start()).toBe(false);
+    });
+});
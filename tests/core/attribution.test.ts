@@ -0,0 +1,93 @@
+/**
+ * Attribution Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { captureTouch, loadAttribution, updateAttribution } from '../../src/core/attribution';
+import { setStorage } from '../../src/utils';
+import type { TouchPoint } from '../../src/types';
+
+describe('Attribution', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const windows = { firstTouchWindow: 90 * DAY, lastTouchWindow: 30 * DAY };
+
+    const touch = (channel: TouchPoint['channel'], timestamp: number): TouchPoint => ({
+        source: channel,
+        medium: channel,
+        channel,
+        landingPage: `https://example.com/${channel}`,
+        timestamp: new Date(timestamp).toISOString(),
+    });
+
+    const stubPage = (href: string, referrer = ''): void => {
+        const url = new URL(href);
+        vi.stubGlobal('window', { location: { href, search: url.search, hostname: url.hostname } });
+        vi.stubGlobal('document', { referrer });
+    };
+
+    beforeEach(() => {
+        setStorage('memory');
+    });
+
+    afterEach(() => {
+        setStorage();
+        vi.unstubAllGlobals();
+    });
+
+    describe('captureTouch()', () => {
+        it('should capture UTMs, click IDs, referrer and landing page', () => {
+            stubPage('https://example.com/pricing?utm_source=google&utm_medium=cpc&gclid=g1', 'https://www.google.com/');
+
+            expect(captureTouch(0)).toEqual({
+                source: 'google',
+                medium: 'cpc',
+                channel: 'paid',
+                utm: { utmSource: 'google', utmMedium: 'cpc' },
+                clickIds: { gclid: 'g1' },
+                referrerDomain: 'google.com',
+                landingPage: 'https://example.com/pricing?utm_source=google&utm_medium=cpc&gclid=g1',
+                timestamp: new Date(0).toISOString(),
+            });
+        });
+
+        it('should ignore navigation within the site', () => {
+            stubPage('https://www.example.com/pricing', 'https://www.example.com/');
+            expect(captureTouch()).toBeNull();
+        });
+
+        it('should treat a visit without referrer or campaign as direct', () => {
+            stubPage('https://example.com/');
+            expect(captureTouch()?.channel).toBe('direct');
+        });
+    });
+
+    describe('updateAttribution()', () => {
+        it('should keep the first touch and update the last touch', () => {
+            updateAttribution(touch('paid', 0), windows, 0);
+            const attribution = updateAttribution(touch('social', DAY), windows, DAY);
+
+            expect(attribution?.firstTouch.channel).toBe('paid');
+            expect(attribution?.lastTouch.channel).toBe('social');
+            expect(loadAttribution()).toEqual(attribution);
+        });
+
+        it('should not let direct visits replace a recent campaign touch', () => {
+            updateAttribution(touch('email', 0), windows, 0);
+
+            expect(updateAttribution(touch('direct', DAY), windows, DAY)?.lastTouch.channel).toBe('email');
+            expect(updateAttribution(touch('direct', 31 * DAY), windows, 31 * DAY)?.lastTouch.channel).toBe('direct');
+        });
+
+        it('should replace the first touch once its window lapses', () => {
+            updateAttribution(touch('paid', 0), windows, 0);
+            const attribution = updateAttribution(touch('organic', 91 * DAY), windows, 91 * DAY);
+
+            expect(attribution?.firstTouch.channel).toBe('organic');
+        });
+
+        it('should return stored attribution when there is no new touch', () => {
+            updateAttribution(touch('paid', 0), windows, 0);
+            expect(updateAttribution(null, windows, DAY)?.firstTouch.channel).toBe('paid');
+        });
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * CircuitBreaker Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker } from '../../src/core/circuitBreaker';
+
+describe('CircuitBreaker', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should open after the failure threshold', () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown: 1000 });
+
+        breaker.recordFailure();
+        expect(breaker.canRequest()).toBe(true);
+
+        breaker.recordFailure();
+        expect(breaker.canRequest()).toBe(false);
+        expect(breaker.getSnapshot().state).toBe('open');
+    });
+
+    it('should allow a single probe after the cooldown', () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+        breaker.recordFailure();
+
+        vi.advanceTimersByTime(1000);
+
+        expect(breaker.canRequest()).toBe(true);
+        expect(breaker.canRequest()).toBe(false);
+        expect(breaker.getSnapshot().state).toBe('half_open');
+    });
+
+    it('should close when the probe succeeds', () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000 });
+        breaker.recordFailure();
+        vi.advanceTimersByTime(1000);
+        breaker.canRequest();
+
+        breaker.recordSuccess();
+
+        expect(breaker.getSnapshot()).toEqual({ state: 'closed', failures: 0, openUntil: null });
+    });
+
+    it('should reopen when the probe fails', () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 3, cooldown: 1000 });
+        breaker.pause(500);
+        vi.advanceTimersByTime(500);
+        breaker.canRequest();
+
+        breaker.recordFailure();
+
+        expect(breaker.getSnapshot().state).toBe('open');
+    });
+
+    it('should never open when disabled', () => {
+        const breaker = new CircuitBreaker({ enabled: false, failureThreshold: 1 });
+        breaker.recordFailure();
+        breaker.pause(1000);
+
+        expect(breaker.canRequest()).toBe(true);
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * Batch Envelope Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeBatch, decodeBatch, isBatchEnvelope, readBatch } from '../../src/core/envelope';
+import type { TrackingEvent } from '../../src/types';
+
+describe('Batch envelope', () => {
+    const createMockEvent = (name: string, overrides: Partial<TrackingEvent> = {}): TrackingEvent => ({
+        eventId: `id-${name}`,
+        workspaceId: 'test-workspace',
+        visitorId: 'test-visitor',
+        sessionId: 'test-session',
+        eventType: 'custom',
+        eventName: name,
+        url: 'https://test.com',
+        properties: {},
+        device: { userAgent: 'test', screen: '1920x1080', language: 'en', timezone: 'UTC' },
+        utm: { utmSource: 'google' },
+        timestamp: new Date().toISOString(),
+        sdkVersion: '1.0.0',
+        ...overrides,
+    });
+
+    it('should hoist shared context out of each event', () => {
+        const envelope = encodeBatch([createMockEvent('a'), createMockEvent('b')]);
+
+        expect(envelope.v).toBe(2);
+        expect(envelope.context.visitorId).toBe('test-visitor');
+        expect(envelope.events[1]).not.toHaveProperty('device');
+        expect(envelope.events[1]).not.toHaveProperty('workspaceId');
+        expect(envelope.events[1].eventName).toBe('b');
+    });
+
+    it('should keep per-event overrides for differing fields', () => {
+        const envelope = encodeBatch([
+            createMockEvent('a'),
+            createMockEvent('b', { sessionId: 'other-session' }),
+        ]);
+
+        expect(envelope.events[0]).not.toHaveProperty('sessionId');
+        expect(envelope.events[1].sessionId).toBe('other-session');
+    });
+
+    it('should round-trip events', () => {
+        const events = [
+            createMockEvent('a'),
+            createMockEvent('b', { utm: { utmSource: 'newsletter' } }),
+        ];
+
+        expect(decodeBatch(JSON.parse(JSON.stringify(encodeBatch(events))))).toEqual(events);
+    });
+
+    it('should not fill in shared fields a later event lacks', () => {
+        const events = [
+            createMockEvent('a', { userId: 'alice', groups: { company: 'acme' } }),
+            createMockEvent('b', { visitorId: 'v2' }),
+        ];
+
+        const envelope = encodeBatch(events);
+        expect(envelope.events[1]).toMatchObject({ userId: null, groups: null });
+
+        const decoded = decodeBatch(JSON.parse(JSON.stringify(envelope)));
+        expect(decoded).toEqual(events);
+        expect(decoded[1]).not.toHaveProperty('userId');
+    });
+
+    it('should read both batch formats', () => {
+        const events = [createMockEvent('a')];
+
+        expect(readBatch(events)).toEqual(events);
+        expect(readBatch({ events })).toEqual(events);
+        expect(readBatch(encodeBatch(events))).toEqual(events);
+        expect(readBatch('garbage')).toEqual([]);
+        expect(isBatchEnvelope({ events })).toBe(false);
+    });
+});
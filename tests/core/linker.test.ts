@@ -0,0 +1,100 @@
+/**
+ * Linker Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    createLinkerToken,
+    parseLinkerToken,
+    isLinkedDomain,
+    decorateUrl,
+    readLinkerParam,
+} from '../../src/core/linker';
+
+describe('Linker', () => {
+    const ids = { visitorId: 'visitor-1', sessionId: 'session-1' };
+    const TTL = 120000;
+
+    beforeEach(() => {
+        vi.stubGlobal('navigator', { userAgent: 'test-agent' });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('tokens', () => {
+        it('should round-trip visitor and session IDs', () => {
+            const token = createLinkerToken(ids, 'secret');
+            expect(parseLinkerToken(token, 'secret', TTL)).toEqual(ids);
+        });
+
+        it('should reject tampered tokens and other secrets', () => {
+            const token = createLinkerToken(ids, 'secret');
+            expect(parseLinkerToken(token.replace('visitor-1', 'visitor-2'), 'secret', TTL)).toBeNull();
+            expect(parseLinkerToken(token, 'other', TTL)).toBeNull();
+            expect(parseLinkerToken('garbage', 'secret', TTL)).toBeNull();
+        });
+
+        it('should reject expired tokens', () => {
+            const token = createLinkerToken(ids, 'secret', 1000);
+            expect(parseLinkerToken(token, 'secret', TTL, 1000 + TTL)).toEqual(ids);
+            expect(parseLinkerToken(token, 'secret', TTL, 1001 + TTL)).toBeNull();
+        });
+
+        it('should reject tokens created in another browser', () => {
+            const token = createLinkerToken(ids, 'secret');
+            vi.stubGlobal('navigator', { userAgent: 'other-agent' });
+            expect(parseLinkerToken(token, 'secret', TTL)).toBeNull();
+        });
+    });
+
+    describe('isLinkedDomain()', () => {
+        it('should match domains and their subdomains', () => {
+            expect(isLinkedDomain('checkout.com', ['checkout.com'])).toBe(true);
+            expect(isLinkedDomain('pay.checkout.com', ['.checkout.com'])).toBe(true);
+            expect(isLinkedDomain('notcheckout.com', ['checkout.com'])).toBe(false);
+        });
+    });
+
+    describe('decorateUrl()', () => {
+        beforeEach(() => {
+            vi.stubGlobal('window', { location: { href: 'https://www.example.com/', hostname: 'www.example.com' } });
+        });
+
+        it('should add the token to linked domains only', () => {
+            expect(decorateUrl('https://checkout.com/cart?a=1', 'tok', '_cl', ['checkout.com'])).toBe(
+                'https://checkout.com/cart?a=1&_cl=tok'
+            );
+            expect(decorateUrl('https://other.com/', 'tok', '_cl', ['checkout.com'])).toBeNull();
+            expect(decorateUrl('mailto:a@checkout.com', 'tok', '_cl', ['checkout.com'])).toBeNull();
+        });
+
+        it('should not decorate links to the current host', () => {
+            expect(decorateUrl('/pricing', 'tok', '_cl', ['example.com'])).toBeNull();
+        });
+    });
+
+    describe('readLinkerParam()', () => {
+        it('should adopt a valid token and strip it from the URL', () => {
+            const token = createLinkerToken(ids, 'secret');
+            const replaceState = vi.fn();
+            vi.stubGlobal('window', {
+                location: { href: `https://checkout.com/cart?a=1&_cl=${encodeURIComponent(token)}` },
+            });
+            vi.stubGlobal('history', { state: null, replaceState });
+
+            expect(readLinkerParam('_cl', 'secret', TTL)).toEqual(ids);
+            expect(replaceState).toHaveBeenCalledWith(null, '', 'https://checkout.com/cart?a=1');
+        });
+
+        it('should strip invalid tokens too', () => {
+            const replaceState = vi.fn();
+            vi.stubGlobal('window', { location: { href: 'https://checkout.com/?_cl=forged' } });
+            vi.stubGlobal('history', { state: null, replaceState });
+
+            expect(readLinkerParam('_cl', 'secret', TTL)).toBeNull();
+            expect(replaceState).toHaveBeenCalledWith(null, '', 'https://checkout.com/');
+        });
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * MiddlewareChain Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { MiddlewareChain } from '../../src/core/middleware';
+import type { MiddlewareContext, TrackerCore, TrackingEvent } from '../../src/types';
+
+describe('MiddlewareChain', () => {
+    const context: MiddlewareContext = {
+        tracker: {} as TrackerCore,
+        source: 'track',
+    };
+
+    const createMockEvent = (name: string): TrackingEvent => ({
+        workspaceId: 'test-workspace',
+        visitorId: 'test-visitor',
+        sessionId: 'test-session',
+        eventType: 'custom',
+        eventName: name,
+        url: 'https://test.com',
+        properties: {},
+        device: { userAgent: 'test', screen: '1920x1080', language: 'en', timezone: 'UTC' },
+        timestamp: new Date().toISOString(),
+        sdkVersion: '1.0.0',
+    });
+
+    it('should pass events through synchronously when empty', () => {
+        const chain = new MiddlewareChain();
+        const next = vi.fn();
+
+        chain.dispatch(createMockEvent('event-1'), context, next);
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ eventName: 'event-1' }));
+    });
+
+    it('should run middleware in registration order', async () => {
+        const chain = new MiddlewareChain();
+        chain.use((event) => {
+            event.properties.order = ['first'];
+        });
+        chain.use((event) => ({
+            ...event,
+            properties: { order: [...(event.properties.order as string[]), 'second'] },
+        }));
+
+        const result = await chain.run(createMockEvent('event-1'), context);
+
+        expect(result?.properties.order).toEqual(['first', 'second']);
+    });
+
+    it('should drop events when middleware returns null', async () => {
+        const chain = new MiddlewareChain();
+        const next = vi.fn();
+        chain.use((event) => (event.eventName === 'drop-me' ? null : event));
+
+        chain.dispatch(createMockEvent('drop-me'), context, next);
+        chain.dispatch(createMockEvent('keep-me'), context, next);
+        await chain.drain();
+
+        expect(next).toHaveBeenCalledTimes(1);
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ eventName: 'keep-me' }));
+    });
+
+    it('should preserve order with async middleware', async () => {
+        const chain = new MiddlewareChain();
+        const received: string[] = [];
+        chain.use(async (event) => {
+            const wait = event.eventName === 'slow' ? 20 : 0;
+            await new Promise((resolve) => setTimeout(resolve, wait));
+            return event;
+        });
+
+        chain.dispatch(createMockEvent('slow'), context, (e) => received.push(e.eventName));
+        chain.dispatch(createMockEvent('fast'), context, (e) => received.push(e.eventName));
+        await chain.drain();
+
+        expect(received).toEqual(['slow', 'fast']);
+    });
+
+    it('should keep the event when a middleware throws', async () => {
+        const chain = new MiddlewareChain();
+        chain.use(() => {
+            throw new Error('boom');
+        });
+
+        const result = await chain.run(createMockEvent('event-1'), context);
+
+        expect(result?.eventName).toBe('event-1');
+    });
+
+    it('should remove middleware via unsubscribe', async () => {
+        const chain = new MiddlewareChain();
+        const unsubscribe = chain.use(() => null);
+        unsubscribe();
+
+        expect(chain.size).toBe(0);
+        const result = await chain.run(createMockEvent('event-1'), context);
+        expect(result).not.toBeNull();
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * IndexedDB Offline Store Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IDBFactory, IDBObjectStore } from 'fake-indexeddb';
+import { IndexedDBQueueStore } from '../../src/core/offlineStore';
+import { createMemoryStorage } from '../../src/utils';
+import type { TrackingEvent } from '../../src/types';
+
+describe('IndexedDBQueueStore', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+
+    const createEvent = (name: string): TrackingEvent => ({
+        eventId: `id-${name}`,
+        workspaceId: 'ws',
+        visitorId: 'v',
+        sessionId: 's',
+        eventType: 'custom',
+        eventName: name,
+        url: 'https://test.com',
+        properties: {},
+        device: { userAgent: 'test', screen: '1x1', language: 'en' },
+        timestamp: new Date(0).toISOString(),
+        sdkVersion: '1.0.0',
+    });
+
+    const names = (events: TrackingEvent[]): string[] => events.map((event) => event.eventName);
+
+    beforeEach(() => {
+        vi.stubGlobal('indexedDB', new IDBFactory());
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+    });
+
+    it('should load events in the order they were appended', async () => {
+        const store = new IndexedDBQueueStore();
+        const batch = ['z', 'a', 'm', 'b', 'y'].map(createEvent);
+
+        await store.append(batch.slice(0, 3));
+        await store.append(batch.slice(3));
+
+        expect(names(await store.load())).toEqual(['z', 'a', 'm', 'b', 'y']);
+        expect(names(await store.load(2))).toEqual(['z', 'a']);
+    });
+
+    it('should remove acknowledged events, including ones written by another tab', async () => {
+        const store = new IndexedDBQueueStore();
+        await store.append(['a', 'b', 'c'].map(createEvent));
+
+        const otherTab = new IndexedDBQueueStore();
+        await otherTab.remove([createEvent('b')]);
+
+        expect(names(await store.load())).toEqual(['a', 'c']);
+    });
+
+    it('should evict the oldest events over the count and size budgets', async () => {
+        const byCount = new IndexedDBQueueStore({ maxEvents: 2 });
+        await byCount.append(['a', 'b', 'c'].map(createEvent));
+        expect(names(await byCount.load())).toEqual(['b', 'c']);
+        await byCount.clear();
+
+        const size = JSON.stringify(createEvent('a')).length;
+        const bySize = new IndexedDBQueueStore({ maxBytes: size * 2 + 1 });
+        await bySize.append(['a', 'b', 'c'].map(createEvent));
+        expect(names(await bySize.load())).toEqual(['b', 'c']);
+    });
+
+    it('should evict expired events', async () => {
+        const now = Date.now();
+        vi.spyOn(Date, 'now').mockReturnValue(now - 8 * DAY);
+        const store = new IndexedDBQueueStore({ maxAge: 7 * DAY });
+        await store.append([createEvent('old')]);
+
+        vi.spyOn(Date, 'now').mockReturnValue(now);
+        await store.append([createEvent('new')]);
+
+        expect(names(await store.load())).toEqual(['new']);
+    });
+
+    it('should evict the oldest events and retry when the quota is exceeded', async () => {
+        const store = new IndexedDBQueueStore();
+        await store.append(['a', 'b', 'c'].map(createEvent));
+
+        vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementationOnce(() => {
+            throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        });
+        await store.append([createEvent('d')]);
+
+        expect(names(await store.load())).toEqual(['b', 'c', 'd']);
+    });
+
+    it('should migrate a legacy storage queue', async () => {
+        const legacyStorage = createMemoryStorage();
+        legacyStorage.setItem('mb_queue', JSON.stringify([createEvent('a'), createEvent('b')]));
+
+        const store = new IndexedDBQueueStore({ legacyStorageKey: 'mb_queue', legacyStorage });
+        await store.append([createEvent('c')]);
+
+        expect(names(await store.load())).toEqual(['a', 'b', 'c']);
+        expect(legacyStorage.getItem('mb_queue')).toBeNull();
+    });
+});
@@ -35,6 +35,8 @@ vi.stubGlobal('document', {
 // Import after mocks
 import { EventQueue } from '../../src/core/queue';
 import { Transport } from '../../src/core/transport';
+import { TabCoordinator } from '../../src/core/tabCoordinator';
+import { readBatch } from '../../src/core/envelope';
 import type { TrackingEvent } from '../../src/types';
 
 describe('EventQueue', () => {
@@ -120,6 +122,357 @@ describe('EventQueue', () => {
 
             limitedQueue.destroy();
         });
+
+        it('should drop sampled-out events before they use the budget', () => {
+            const sampledQueue = new EventQueue(transport, {
+                batchSize: 200,
+                flushInterval: 100000,
+                rateLimit: { maxEvents: 1, sampleRates: { page_view: 0 } },
+            });
+
+            sampledQueue.push({ ...createMockEvent('sampled-out'), eventType: 'page_view' });
+            sampledQueue.push(createMockEvent('kept'));
+            expect(sampledQueue.length).toBe(1);
+
+            sampledQueue.destroy();
+        });
+    });
+
+    describe('flushSync()', () => {
+        const createLargeEvent = (name: string): TrackingEvent => ({
+            ...createMockEvent(name),
+            properties: { blob: 'x'.repeat(40 * 1024) },
+        });
+
+        const originalNavigator = globalThis.navigator;
+        const originalFetch = globalThis.fetch;
+
+        afterEach(() => {
+            vi.stubGlobal('navigator', originalNavigator);
+            vi.stubGlobal('fetch', originalFetch);
+        });
+
+        it('should split large queues into beacon-sized chunks', () => {
+            const beaconMock = vi.fn().mockReturnValue(true);
+            vi.stubGlobal('navigator', { sendBeacon: beaconMock });
+            const unloadQueue = new EventQueue(transport, { batchSize: 100, flushInterval: 100000 });
+
+            unloadQueue.push(createLargeEvent('event-1'));
+            unloadQueue.push(createLargeEvent('event-2'));
+            unloadQueue.push(createLargeEvent('event-3'));
+            unloadQueue.flushSync();
+
+            expect(beaconMock).toHaveBeenCalledTimes(3);
+            expect(unloadQueue.length).toBe(0);
+            unloadQueue.destroy();
+        });
+
+        it('should beacon a follower tab\'s events instead of handing them to the leader', () => {
+            const beaconMock = vi.fn().mockReturnValue(true);
+            vi.stubGlobal('navigator', { sendBeacon: beaconMock });
+            vi.spyOn(TabCoordinator.prototype, 'isLeader', 'get').mockReturnValue(false);
+            vi.spyOn(TabCoordinator.prototype, 'hasLeader', 'get').mockReturnValue(true);
+            const handOff = vi.spyOn(TabCoordinator.prototype, 'handOff').mockResolvedValue(true);
+            const followerQueue = new EventQueue(transport, { batchSize: 100, flushInterval: 100000, crossTab: true });
+
+            followerQueue.push(createMockEvent('event-1'));
+            followerQueue.flushSync();
+
+            expect(handOff).not.toHaveBeenCalled();
+            expect(beaconMock).toHaveBeenCalledTimes(1);
+            followerQueue.destroy();
+            vi.restoreAllMocks();
+        });
+
+                it('should re-persist only chunks that could not be sent', () => {
+            const beaconMock = vi.fn().mockReturnValueOnce(true).mockReturnValue(false);
+            vi.stubGlobal('navigator', { sendBeacon: beaconMock });
+            vi.stubGlobal('fetch', undefined);
+            const unloadQueue = new EventQueue(transport, { batchSize: 100, flushInterval: 100000 });
+
+            unloadQueue.push(createLargeEvent('sent'));
+            unloadQueue.push(createLargeEvent('failed'));
+            unloadQueue.flushSync();
+
+            const persisted = readBatch(JSON.parse(localStorageMock.store['mb_queue']));
+            expect(persisted.map((e) => e.eventName)).toEqual(['failed']);
+            expect(unloadQueue.length).toBe(1);
+            unloadQueue.destroy();
+        });
+
+        it('should fall back to keepalive fetch when a beacon is rejected', async () => {
+            vi.stubGlobal('navigator', { sendBeacon: vi.fn().mockReturnValue(false) });
+            const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+            vi.stubGlobal('fetch', fetchMock);
+            const unloadQueue = new EventQueue(transport, { batchSize: 100, flushInterval: 100000 });
+
+            unloadQueue.push(createMockEvent('event-1'));
+            unloadQueue.flushSync();
+            await vi.waitFor(() => {
+                expect(readBatch(JSON.parse(localStorageMock.store['mb_queue']))).toHaveLength(0);
+            });
+
+            expect(fetchMock).toHaveBeenCalledWith(
+                'https://api.test.com/api/public/track/event',
+                expect.objectContaining({ keepalive: true })
+            );
+            expect(unloadQueue.length).toBe(0);
+            unloadQueue.destroy();
+        });
+    });
+
+    describe('persistence', () => {
+        it('should merge with events persisted by other tabs', async () => {
+            localStorageMock.store['mb_queue'] = JSON.stringify([
+                { ...createMockEvent('other-tab'), eventId: 'other-1' },
+            ]);
+            const otherQueue = new EventQueue(transport, { batchSize: 100, flushInterval: 100000 });
+            vi.spyOn(transport, 'sendEvents').mockResolvedValue({ success: false });
+
+            // Simulate the other tab persisting again after this queue restored
+            localStorageMock.store['mb_queue'] = JSON.stringify([
+                { ...createMockEvent('late-tab'), eventId: 'late-1' },
+            ]);
+            otherQueue.push({ ...createMockEvent('event-1'), eventId: 'own-1' });
+            await otherQueue.flush();
+
+            const persisted = readBatch(JSON.parse(localStorageMock.store['mb_queue']));
+            expect(persisted.map((e) => e.eventId).sort()).toEqual(['late-1', 'other-1', 'own-1']);
+            otherQueue.destroy();
+        });
+
+        it('should deduplicate restored events by event ID', () => {
+            localStorageMock.store['mb_queue'] = JSON.stringify([
+                { ...createMockEvent('event-1'), eventId: 'dup' },
+                { ...createMockEvent('event-1'), eventId: 'dup' },
+                { ...createMockEvent('event-2'), eventId: 'unique' },
+            ]);
+
+            const restored = new EventQueue(transport, { batchSize: 100, flushInterval: 100000 });
+
+            expect(restored.length).toBe(2);
+            restored.destroy();
+        });
+
+        it('should assign an event ID to queued events', () => {
+            const event = createMockEvent('event-1');
+            queue.push(event);
+            expect(event.eventId).toBeDefined();
+        });
+    });
+
+    describe('offline storage', () => {
+        it('should fall back to localStorage when IndexedDB is unavailable', async () => {
+            vi.spyOn(transport, 'sendEvents').mockResolvedValue({ success: false });
+            const idbQueue = new EventQueue(transport, {
+                batchSize: 100,
+                flushInterval: 100000,
+                offline: { storage: 'indexedDB' },
+            });
+
+            idbQueue.push(createMockEvent('event-1'));
+            await idbQueue.flush();
+
+            const persisted = readBatch(JSON.parse(localStorageMock.store['mb_queue']));
+            expect(persisted).toHaveLength(1);
+            expect(persisted[0].eventName).toBe('event-1');
+            idbQueue.destroy();
+        });
+
+        it('should not persist events in memory mode', async () => {
+            vi.spyOn(transport, 'sendEvents').mockResolvedValue({ success: false });
+            const memoryQueue = new EventQueue(transport, {
+                batchSize: 100,
+                flushInterval: 100000,
+                offline: { storage: 'memory' },
+            });
+
+            memoryQueue.push(createMockEvent('event-1'));
+            await memoryQueue.flush();
+
+            expect(memoryQueue.length).toBe(1);
+            expect(localStorageMock.store['mb_queue']).toBeUndefined();
+            memoryQueue.destroy();
+        });
+
+        it('should use a custom store', async () => {
+            const store = {
+                load: vi.fn().mockResolvedValue([{ ...createMockEvent('stored'), eventId: 'stored-1' }]),
+                append: vi.fn().mockResolvedValue(undefined),
+                remove: vi.fn().mockResolvedValue(undefined),
+                clear: vi.fn().mockResolvedValue(undefined),
+            };
+            vi.spyOn(transport, 'sendEvents').mockResolvedValue({ success: true });
+            const storeQueue = new EventQueue(transport, {
+                batchSize: 100,
+                flushInterval: 100000,
+                offline: { store },
+            });
+            await vi.waitFor(() => expect(storeQueue.length).toBe(1));
+
+            const event = createMockEvent('event-1');
+            storeQueue.push(event);
+            expect(store.append).toHaveBeenCalledWith([event]);
+            expect(storeQueue.length).toBe(2);
+
+            await storeQueue.flush();
+            expect(store.remove).toHaveBeenCalledWith([expect.objectContaining({ eventId: 'stored-1' }), event]);
+            storeQueue.destroy();
+        });
+
+        it('should keep events beyond the in-memory limit in the store and page them in', async () => {
+            let stored: TrackingEvent[] = [];
+            const store = {
+                load: vi.fn(async (limit = Infinity) => stored.slice(0, limit)),
+                append: vi.fn(async (events: TrackingEvent[]) => {
+                    stored.push(...events);
+                }),
+                remove: vi.fn(async (events: TrackingEvent[]) => {
+                    stored = stored.filter((event) => !events.includes(event));
+                }),
+                clear: vi.fn(async () => {
+                    stored = [];
+                }),
+            };
+            const sendSpy = vi.spyOn(transport, 'sendEvents').mockResolvedValue({ success: true });
+            const storeQueue = new EventQueue(transport, {
+                batchSize: 100,
+                flushInterval: 100000,
+                maxQueueSize: 3,
+                offline: { store },
+            });
+            await vi.waitFor(() => expect(store.load).toHaveBeenCalled());
+
+            for (let i = 1; i <= 5; i++) {
+                storeQueue.push(createMockEvent(`event-${i}`));
+            }
+            expect(storeQueue.length).toBe(3);
+            expect(stored).toHaveLength(5);
+            expect(store.remove).not.toHaveBeenCalled();
+
+            await storeQueue.flush();
+            expect(storeQueue.length).toBe(2);
+            await storeQueue.flush();
+
+            const sent = sendSpy.mock.calls.flatMap(([events]) => events.map((event) => event.eventName));
+            expect(sent).toEqual(['event-1', 'event-2', 'event-3', 'event-4', 'event-5']);
+            expect(stored).toHaveLength(0);
+            storeQueue.destroy();
+        });
+    });
+
+    describe('cross-tab queue', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('should hand follower events to the leader through the persisted queue without BroadcastChannel', async () => {
+            vi.useFakeTimers();
+            const channel = globalThis.BroadcastChannel;
+            vi.stubGlobal('BroadcastChannel', undefined);
+            const sendSpy = vi.spyOn(transport, 'sendEvents').mockResolvedValue({ success: true });
+            const leader = new EventQueue(transport, { batchSize: 100, flushInterval: 1000, crossTab: true });
+            const follower = new EventQueue(transport, { batchSize: 100, flushInterval: 1000, crossTab: true });
+            vi.stubGlobal('BroadcastChannel', channel);
+
+            follower.push(createMockEvent('from-follower'));
+            await follower.flush();
+
+            expect(sendSpy).not.toHaveBeenCalled();
+            expect(follower.length).toBe(0);
+            expect(readBatch(JSON.parse(localStorageMock.store['mb_queue']))[0].eventName).toBe('from-follower');
+
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect(sendSpy).toHaveBeenCalledTimes(1);
+            expect(sendSpy.mock.calls[0][0][0].eventName).toBe('from-follower');
+            leader.destroy();
+            follower.destroy();
+        });
+
+        describe('with BroadcastChannel', () => {
+            let follower: EventQueue;
+
+            beforeEach(() => {
+                vi.spyOn(TabCoordinator.prototype, 'isLeader', 'get').mockReturnValue(false);
+                vi.spyOn(TabCoordinator.prototype, 'hasLeader', 'get').mockReturnValue(true);
+                follower = new EventQueue(transport, { batchSize: 100, flushInterval: 100000, crossTab: true });
+            });
+
+            afterEach(() => {
+                follower.destroy();
+                vi.restoreAllMocks();
+            });
+
+            it('should keep handed-off events persisted until the leader delivers them', async () => {
+                const sendSpy = vi.spyOn(transport, 'sendEvents');
+                vi.spyOn(TabCoordinator.prototype, 'handOff').mockResolvedValue(true);
+
+                follower.push(createMockEvent('from-follower'));
+                await follower.flush();
+
+                expect(sendSpy).not.toHaveBeenCalled();
+                expect(follower.length).toBe(0);
+                expect(readBatch(JSON.parse(localStorageMock.store['mb_queue']))[0].eventName).toBe('from-follower');
+            });
+
+            it('should send events itself when the leader does not acknowledge them', async () => {
+                const sendSpy = vi.spyOn(transport, 'sendEvents').mockResolvedValue({ success: true });
+                vi.spyOn(TabCoordinator.prototype, 'handOff').mockResolvedValue(false);
+
+                follower.push(createMockEvent('from-follower'));
+                await follower.flush();
+
+                expect(sendSpy).toHaveBeenCalledTimes(1);
+                expect(sendSpy.mock.calls[0][0][0].eventName).toBe('from-follower');
+                expect(readBatch(JSON.parse(localStorageMock.store['mb_queue'] ?? '[]'))).toHaveLength(0);
+            });
+        });
+
+        it('should not share queued events between scopes', () => {
+            const first = new EventQueue(transport, { batchSize: 100, flushInterval: 100000, scope: 'a' });
+            const second = new EventQueue(transport, { batchSize: 100, flushInterval: 100000, scope: 'b' });
+
+            vi.stubGlobal('navigator', { sendBeacon: vi.fn().mockReturnValue(false) });
+            vi.stubGlobal('fetch', undefined);
+
+            first.push(createMockEvent('for-a'));
+            first.flushSync();
+
+            expect(readBatch(JSON.parse(localStorageMock.store['mb_queue_a']))[0].eventName).toBe('for-a');
+            expect(localStorageMock.store['mb_queue_b']).toBeUndefined();
+            expect(second.length).toBe(0);
+            first.destroy();
+            second.destroy();
+        });
+    });
+
+    describe('flushOnExit', () => {
+        it('should flush on beforeExit until the queue is empty or stalls', async () => {
+            const on = vi.spyOn(process, 'on');
+            const off = vi.spyOn(process, 'off');
+            const sendSpy = vi.spyOn(transport, 'sendEvents').mockResolvedValue({ success: false });
+            const exitQueue = new EventQueue(transport, {
+                batchSize: 100,
+                flushInterval: 100000,
+                flushOnExit: true,
+            });
+            const handler = on.mock.calls.find(([event]) => event === 'beforeExit')![1] as () => void;
+
+            exitQueue.push(createMockEvent('event-1'));
+            handler();
+            await vi.waitFor(() => expect(sendSpy).toHaveBeenCalledTimes(1));
+            await Promise.resolve();
+
+            // The failed flush made no progress, so the process may exit
+            handler();
+            expect(sendSpy).toHaveBeenCalledTimes(1);
+
+            exitQueue.destroy();
+            expect(off).toHaveBeenCalledWith('beforeExit', handler);
+            on.mockRestore();
+            off.mockRestore();
+        });
     });
 
     describe('clear()', () => {
@@ -161,6 +514,51 @@ describe('EventQueue', () => {
             expect(queue.length).toBe(1);
         });
 
+        it('should re-queue only retryable events from a partial response', async () => {
+            const onRejected = vi.fn();
+            const partialQueue = new EventQueue(transport, {
+                batchSize: 100,
+                flushInterval: 100000,
+                onRejected,
+            });
+            vi.spyOn(transport, 'sendEvents').mockResolvedValue({
+                success: true,
+                batch: {
+                    accepted: [0],
+                    rejected: [{ index: 1, reason: 'invalid_properties' }],
+                    retryable: [2],
+                },
+            });
+
+            partialQueue.push(createMockEvent('accepted'));
+            partialQueue.push(createMockEvent('rejected'));
+            partialQueue.push(createMockEvent('retryable'));
+            await partialQueue.flush();
+
+            expect(partialQueue.length).toBe(1);
+            expect(onRejected).toHaveBeenCalledWith([
+                expect.objectContaining({
+                    event: expect.objectContaining({ eventName: 'rejected' }),
+                    reason: 'invalid_properties',
+                }),
+            ]);
+            partialQueue.destroy();
+        });
+
+        it('should re-queue unlisted events when a partial response fails', async () => {
+            vi.spyOn(transport, 'sendEvents').mockResolvedValue({
+                success: false,
+                status: 400,
+                batch: { accepted: [0], rejected: [], retryable: [] },
+            });
+
+            queue.push(createMockEvent('accepted'));
+            queue.push(createMockEvent('unlisted'));
+            await queue.flush();
+
+            expect(queue.length).toBe(1);
+        });
+
         it('should not flush if already flushing', async () => {
             const sendEventsSpy = vi.spyOn(transport, 'sendEvents').mockImplementation(
                 () => new Promise(resolve => setTimeout(() => resolve({ success: true }), 100))
@@ -0,0 +1,105 @@
+/**
+ * RateLimiter Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter } from '../../src/core/rateLimiter';
+import type { TrackingEvent } from '../../src/types';
+
+describe('RateLimiter', () => {
+    const createEvent = (eventType: TrackingEvent['eventType'], visitorId = 'visitor'): TrackingEvent => ({
+        workspaceId: 'test-workspace',
+        visitorId,
+        sessionId: 'test-session',
+        eventType,
+        eventName: eventType,
+        url: 'https://test.com',
+        properties: {},
+        device: { userAgent: 'test', screen: '1920x1080', language: 'en' },
+        timestamp: new Date().toISOString(),
+        sdkVersion: '1.0.0',
+    });
+
+    const allowMany = (limiter: RateLimiter, eventType: string, count: number): number => {
+        let allowed = 0;
+        for (let i = 0; i < count; i++) {
+            if (limiter.allow(eventType)) allowed++;
+        }
+        return allowed;
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should enforce the global budget per window', () => {
+        const limiter = new RateLimiter({ maxEvents: 10, windowMs: 1000 });
+
+        expect(allowMany(limiter, 'custom', 15)).toBe(10);
+
+        vi.advanceTimersByTime(1000);
+        expect(limiter.allow('custom')).toBe(true);
+    });
+
+    it('should enforce per-type budgets', () => {
+        const limiter = new RateLimiter({ budgets: { page_view: 3 } });
+
+        expect(allowMany(limiter, 'page_view', 5)).toBe(3);
+        expect(limiter.allow('custom')).toBe(true);
+    });
+
+    it('should keep room for forms and custom events when clicks flood', () => {
+        const limiter = new RateLimiter({ maxEvents: 10 });
+
+        // Low priority may use half of the budget
+        expect(allowMany(limiter, 'button_click', 20)).toBe(5);
+        expect(allowMany(limiter, 'scroll_depth', 5)).toBe(0);
+
+        // Normal priority up to 80%, high priority the rest
+        expect(allowMany(limiter, 'page_view', 5)).toBe(3);
+        expect(allowMany(limiter, 'form_submit', 5)).toBe(2);
+    });
+
+    it('should never limit critical events by the global budget', () => {
+        const limiter = new RateLimiter({ maxEvents: 2, priorities: { page_view: 'critical' } });
+
+        allowMany(limiter, 'custom', 2);
+        expect(allowMany(limiter, 'page_view', 10)).toBe(10);
+        expect(limiter.getPriority('identify')).toBe('critical');
+    });
+
+    it('should allow everything when disabled', () => {
+        const limiter = new RateLimiter({ enabled: false, maxEvents: 1 });
+        expect(allowMany(limiter, 'custom', 5)).toBe(5);
+    });
+
+    it('should sample deterministically per visitor and record the rate', () => {
+        const limiter = new RateLimiter({ sampleRates: { scroll_depth: 0.5 } });
+
+        let kept = 0;
+        for (let i = 0; i < 200; i++) {
+            const event = createEvent('scroll_depth', `visitor-${i}`);
+            const first = limiter.sample(event);
+            expect(limiter.sample(createEvent('scroll_depth', `visitor-${i}`))).toBe(first);
+            if (first) {
+                kept++;
+                expect(event.sampleRate).toBe(0.5);
+            }
+        }
+        expect(kept).toBeGreaterThan(60);
+        expect(kept).toBeLessThan(140);
+    });
+
+    it('should not tag unsampled event types', () => {
+        const limiter = new RateLimiter({ sampleRates: { scroll_depth: 0 } });
+
+        const event = createEvent('page_view');
+        expect(limiter.sample(event)).toBe(true);
+        expect(event.sampleRate).toBeUndefined();
+        expect(limiter.sample(createEvent('scroll_depth'))).toBe(false);
+    });
+});
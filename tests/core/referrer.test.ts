@@ -0,0 +1,79 @@
+/**
+ * Referrer Classification Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyTraffic, findReferrerRule, getClickIds, getReferrerDomain } from '../../src/core/referrer';
+
+describe('Referrer classification', () => {
+    describe('classifyTraffic()', () => {
+        it('should classify search engines as organic', () => {
+            expect(classifyTraffic({ referrerDomain: 'google.co.uk' })).toEqual({
+                source: 'google',
+                medium: 'organic',
+                channel: 'organic',
+                referrerDomain: 'google.co.uk',
+            });
+            expect(classifyTraffic({ referrerDomain: 'duckduckgo.com' }).channel).toBe('organic');
+        });
+
+        it('should classify social networks, email clients and AI assistants', () => {
+            expect(classifyTraffic({ referrerDomain: 'lnkd.in' }).source).toBe('linkedin');
+            expect(classifyTraffic({ referrerDomain: 't.co' }).channel).toBe('social');
+            expect(classifyTraffic({ referrerDomain: 'mail.google.com' }).channel).toBe('email');
+            expect(classifyTraffic({ referrerDomain: 'chatgpt.com' })).toMatchObject({ source: 'chatgpt', channel: 'ai' });
+            expect(classifyTraffic({ referrerDomain: 'gemini.google.com' }).channel).toBe('ai');
+        });
+
+        it('should classify unknown referrers as referral and no referrer as direct', () => {
+            expect(classifyTraffic({ referrerDomain: 'blog.partner.io' })).toMatchObject({
+                source: 'blog.partner.io',
+                medium: 'referral',
+                channel: 'referral',
+            });
+            expect(classifyTraffic({})).toEqual({ source: '(direct)', medium: '(none)', channel: 'direct' });
+        });
+
+        it('should prefer UTMs over the referrer', () => {
+            expect(
+                classifyTraffic({ utm: { utmSource: 'Newsletter', utmMedium: 'email' }, referrerDomain: 'google.com' })
+            ).toMatchObject({ source: 'newsletter', medium: 'email', channel: 'email' });
+            expect(classifyTraffic({ utm: { utmSource: 'linkedin', utmMedium: 'cpc' } }).channel).toBe('paid');
+        });
+
+        it('should classify a utm_source alone by the rule table', () => {
+            expect(classifyTraffic({ utm: { utmSource: 'chatgpt.com' } })).toMatchObject({
+                source: 'chatgpt.com',
+                medium: 'ai',
+                channel: 'ai',
+            });
+        });
+
+        it('should treat ad click IDs as paid', () => {
+            expect(classifyTraffic({ clickIds: { gclid: 'g1' }, referrerDomain: 'google.com' })).toMatchObject({
+                source: 'google',
+                medium: 'cpc',
+                channel: 'paid',
+            });
+            expect(classifyTraffic({ clickIds: { fbclid: 'f1' } }).channel).toBe('social');
+        });
+    });
+
+    it('should check custom rules before the built-in table', () => {
+        const rules = [{ hosts: ['community.acme.com'], source: 'acme_forum', medium: 'community', channel: 'social' as const }];
+
+        expect(findReferrerRule('community.acme.com', rules)?.source).toBe('acme_forum');
+        expect(findReferrerRule('www.bing.com', rules)?.source).toBe('bing');
+        expect(findReferrerRule('community.acme.com')).toBeNull();
+        expect(classifyTraffic({ referrerDomain: 'community.acme.com' }, rules).channel).toBe('social');
+    });
+
+    it('should extract click IDs', () => {
+        expect(getClickIds('?gclid=g1&li_fat_id=l1&other=x')).toEqual({ gclid: 'g1', liFatId: 'l1' });
+    });
+
+    it('should strip www from referrer domains', () => {
+        expect(getReferrerDomain('https://www.google.com/search?q=x')).toBe('google.com');
+        expect(getReferrerDomain('not a url')).toBeUndefined();
+    });
+});
@@ -0,0 +1,38 @@
+/**
+ * Event Schema Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { defineEventSchema, validateEvent } from '../../src/core/schema';
+
+describe('Event schema', () => {
+    const events = defineEventSchema({
+        'Signup Completed': { plan: ['free', 'pro'], seats: 'number', coupon: 'string?', tags: 'array?' },
+    });
+
+    it('should accept matching properties', () => {
+        expect(validateEvent({ events }, 'custom', 'Signup Completed', { plan: 'pro', seats: 3 })).toEqual([]);
+        expect(
+            validateEvent({ events }, 'custom', 'Signup Completed', { plan: 'free', seats: 1, tags: ['a'], extra: 1 })
+        ).toEqual([]);
+    });
+
+    it('should report missing, mistyped and disallowed properties', () => {
+        expect(validateEvent({ events }, 'custom', 'Signup Completed', { plan: 'team', coupon: 5 })).toEqual([
+            '"plan" should be one of free, pro',
+            'missing required property "seats"',
+            '"coupon" should be string, got number',
+        ]);
+        expect(validateEvent({ events }, 'custom', 'Signup Completed', { plan: 'pro', seats: 1, tags: {} })).toEqual([
+            '"tags" should be array, got object',
+        ]);
+    });
+
+    it('should only flag unknown custom events in strict mode', () => {
+        expect(validateEvent({ events }, 'custom', 'Signup Complete', {})).toEqual([]);
+        expect(validateEvent({ events, strict: true }, 'custom', 'Signup Complete', {})).toEqual([
+            'unknown event "Signup Complete"',
+        ]);
+        expect(validateEvent({ events, strict: true }, 'page_view', 'Home', {})).toEqual([]);
+    });
+});
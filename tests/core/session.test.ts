@@ -0,0 +1,134 @@
+/**
+ * Session Manager Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionManager } from '../../src/core/session';
+import { setStorage } from '../../src/utils';
+
+describe('SessionManager', () => {
+    const MINUTE = 60 * 1000;
+    const start = new Date(2026, 5, 1, 12, 0).getTime();
+
+    const stubPage = (href: string, referrer = ''): void => {
+        const url = new URL(href);
+        vi.stubGlobal('window', { location: { href, search: url.search, hostname: url.hostname } });
+        vi.stubGlobal('document', { referrer });
+    };
+
+    beforeEach(() => {
+        setStorage('memory');
+        stubPage('https://example.com/', 'https://www.google.com/');
+    });
+
+    afterEach(() => {
+        setStorage();
+        vi.unstubAllGlobals();
+    });
+
+    it('should start a new session with the entry page and traffic source', () => {
+        const session = new SessionManager(30 * MINUTE);
+        const transition = session.start(undefined, start);
+
+        expect(transition?.ended).toBeNull();
+        expect(transition?.started).toMatchObject({
+            sessionId: session.getId(),
+            previousSessionId: null,
+            reason: 'new',
+            context: { source: 'google', channel: 'organic', landingPage: 'https://example.com/' },
+        });
+    });
+
+    it('should resume the stored session on the next page load', () => {
+        const first = new SessionManager(30 * MINUTE);
+        first.start(undefined, start);
+
+        const second = new SessionManager(30 * MINUTE);
+        expect(second.start(undefined, start + MINUTE)).toBeNull();
+        expect(second.getId()).toBe(first.getId());
+        expect(second.getContext()?.source).toBe('google');
+    });
+
+    it('should keep the session alive while there is activity', () => {
+        const session = new SessionManager(30 * MINUTE);
+        session.start(undefined, start);
+        const id = session.getId();
+
+        for (let i = 1; i <= 4; i++) {
+            expect(session.touch('custom', start + i * 20 * MINUTE)).toBeNull();
+        }
+        expect(session.getId()).toBe(id);
+    });
+
+    it('should rotate after inactivity and summarize the ended session', () => {
+        const session = new SessionManager(30 * MINUTE);
+        session.start(undefined, start);
+        const id = session.getId();
+        session.touch('page_view', start);
+        session.touch('page_view', start + MINUTE);
+        session.touch('custom', start + 2 * MINUTE);
+
+        const transition = session.touch('custom', start + 40 * MINUTE);
+
+        expect(transition?.ended).toEqual({
+            sessionId: id,
+            duration: 120,
+            pageCount: 2,
+            eventCount: 3,
+            engaged: true,
+            endedAt: new Date(start + 2 * MINUTE).toISOString(),
+        });
+        expect(transition?.started.reason).toBe('timeout');
+        expect(transition?.started.previousSessionId).toBe(id);
+        expect(session.getId()).not.toBe(id);
+    });
+
+    it('should not count a short single-page visit as engaged', () => {
+        const session = new SessionManager(30 * MINUTE);
+        session.start(undefined, start);
+        session.touch('page_view', start + 1000);
+
+        expect(session.touch('custom', start + 31 * MINUTE)?.ended?.engaged).toBe(false);
+    });
+
+    it('should rotate at midnight', () => {
+        const session = new SessionManager(30 * MINUTE);
+        const evening = new Date(2026, 5, 1, 23, 55).getTime();
+        session.start(undefined, evening);
+
+        expect(session.touch('custom', evening + 10 * MINUTE)?.started.reason).toBe('midnight');
+    });
+
+    it('should rotate when a page view arrives on a different campaign', () => {
+        stubPage('https://example.com/?utm_source=newsletter&utm_medium=email&utm_campaign=spring');
+        const session = new SessionManager(30 * MINUTE);
+        session.start(undefined, start);
+        expect(session.touch('page_view', start + MINUTE)).toBeNull();
+
+        stubPage('https://example.com/?utm_source=newsletter&utm_medium=email&utm_campaign=summer');
+        const transition = session.touch('page_view', start + 2 * MINUTE);
+
+        expect(transition?.started.reason).toBe('campaign');
+        expect(session.getContext()?.campaign).toBe('summer');
+    });
+
+    it('should adopt a linked session without reporting a change', () => {
+        const session = new SessionManager(30 * MINUTE);
+
+        expect(session.start('linked-session', start)).toBeNull();
+        expect(session.getId()).toBe('linked-session');
+        expect(session.touch('custom', start + MINUTE)).toBeNull();
+    });
+
+    it('should start a new session on reset', () => {
+        const session = new SessionManager(30 * MINUTE);
+        session.start(undefined, start);
+        const id = session.getId();
+
+        const transition = session.reset(start + MINUTE);
+
+        expect(transition.ended).toBeNull();
+        expect(transition.started).toMatchObject({ reason: 'reset', previousSessionId: id });
+        expect(session.getId()).not.toBe(id);
+    });
+});
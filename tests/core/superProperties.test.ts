@@ -0,0 +1,60 @@
+/**
+ * Super Properties Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SuperProperties } from '../../src/core/superProperties';
+import { getStorage, setStorage } from '../../src/utils';
+
+describe('SuperProperties', () => {
+    beforeEach(() => {
+        setStorage('memory');
+    });
+
+    afterEach(() => {
+        setStorage();
+    });
+
+    it('should register, replace and unregister properties', () => {
+        const props = new SuperProperties();
+        props.register({ plan: 'free', appVersion: '2.4.0' });
+        props.register({ plan: 'pro' });
+        props.unregister('appVersion');
+
+        expect(props.getAll()).toEqual({ plan: 'pro' });
+    });
+
+    it('should only register unset keys with registerOnce', () => {
+        const props = new SuperProperties();
+        props.register({ experimentBucket: 'A' });
+        props.registerOnce({ experimentBucket: 'B', plan: 'free' });
+
+        expect(props.getAll()).toEqual({ experimentBucket: 'A', plan: 'free' });
+    });
+
+    it('should restore only persisted properties', () => {
+        const first = new SuperProperties();
+        first.register({ plan: 'pro' }, { persist: true });
+        first.register({ page: 'checkout' });
+
+        expect(new SuperProperties().getAll()).toEqual({ plan: 'pro' });
+    });
+
+    it('should stop persisting a key registered again without persist', () => {
+        const first = new SuperProperties();
+        first.register({ plan: 'pro' }, { persist: true });
+        first.register({ plan: 'trial' });
+
+        expect(first.getAll()).toEqual({ plan: 'trial' });
+        expect(new SuperProperties().getAll()).toEqual({});
+    });
+
+    it('should remove stored properties on clear', () => {
+        const props = new SuperProperties();
+        props.register({ plan: 'pro' }, { persist: true });
+        props.clear();
+
+        expect(props.getAll()).toEqual({});
+        expect(getStorage().getItem('mb_props')).toBeNull();
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * TabCoordinator Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock localStorage
+const localStorageMock = {
+    store: {} as Record<string, string>,
+    getItem: vi.fn((key: string) => localStorageMock.store[key] || null),
+    setItem: vi.fn((key: string, value: string) => { localStorageMock.store[key] = value; }),
+    removeItem: vi.fn((key: string) => { delete localStorageMock.store[key]; }),
+    clear: vi.fn(() => { localStorageMock.store = {}; }),
+};
+
+import { TabCoordinator } from '../../src/core/tabCoordinator';
+import type { TrackingEvent } from '../../src/types';
+
+const realSetImmediate = setImmediate;
+
+describe('TabCoordinator', () => {
+    const lockKey = 'mb_queue_leader';
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        localStorageMock.clear();
+        vi.stubGlobal('localStorage', localStorageMock);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    describe('BroadcastChannel', () => {
+        const coordinators: TabCoordinator[] = [];
+        const createTab = (onEvents = vi.fn()): TabCoordinator => {
+            const coordinator = new TabCoordinator({ lockKey, onEvents });
+            coordinators.push(coordinator);
+            return coordinator;
+        };
+
+        /** Advance the clock, then let channel messages arrive */
+        const elapse = async (ms: number): Promise<void> => {
+            for (let elapsed = 0; elapsed < ms; elapsed += 500) {
+                vi.advanceTimersByTime(500);
+                await new Promise((resolve) => realSetImmediate(resolve));
+            }
+        };
+
+        afterEach(() => {
+            coordinators.splice(0).forEach((coordinator) => coordinator.destroy());
+        });
+
+        it('should elect a single leader', async () => {
+            const first = createTab();
+            const second = createTab();
+
+            await elapse(3000);
+
+            expect([first, second].filter((tab) => tab.isLeader)).toHaveLength(1);
+            expect([first, second].filter((tab) => tab.hasLeader)).toHaveLength(1);
+            expect(first.hasChannel).toBe(true);
+        });
+
+        it('should follow a leader announced by heartbeat', async () => {
+            const leader = createTab();
+            await elapse(2000);
+            expect(leader.isLeader).toBe(true);
+
+            const follower = createTab();
+            await elapse(3000);
+
+            expect(follower.hasLeader).toBe(true);
+            expect(follower.isLeader).toBe(false);
+            expect(leader.isLeader).toBe(true);
+        });
+
+        it('should hand events to the leader', async () => {
+            const onEvents = vi.fn();
+            createTab(onEvents);
+            await elapse(2000);
+            const follower = createTab();
+            await elapse(1000);
+
+            const events = [{ eventName: 'from-follower' }] as TrackingEvent[];
+            const handedOff = follower.handOff(events);
+            await elapse(500);
+
+            await expect(handedOff).resolves.toBe(true);
+            expect(onEvents).toHaveBeenCalledWith(events);
+        });
+
+        it('should report events the leader never acknowledged', async () => {
+            const leader = createTab();
+            await elapse(2000);
+            const follower = createTab();
+            await elapse(1000);
+
+            // The leader tab went away without resigning
+            const dead = leader as unknown as { channel: BroadcastChannel | null };
+            dead.channel!.close();
+            dead.channel = null;
+
+            const handedOff = follower.handOff([{ eventName: 'lost' }] as TrackingEvent[]);
+            await elapse(1000);
+
+            await expect(handedOff).resolves.toBe(false);
+        });
+
+        it('should resign on pagehide', async () => {
+            const pagehide: Array<() => void> = [];
+            vi.stubGlobal('window', {
+                addEventListener: vi.fn((event: string, listener: () => void) => {
+                    if (event === 'pagehide') pagehide.push(listener);
+                }),
+                removeEventListener: vi.fn(),
+            });
+            const leader = createTab();
+            await elapse(2000);
+            const follower = createTab();
+            await elapse(1000);
+            expect(follower.isLeader).toBe(false);
+
+            // The leader registered the first listener
+            pagehide[0]();
+            await elapse(500);
+
+            expect(leader.isLeader).toBe(false);
+            expect(follower.isLeader).toBe(true);
+        });
+
+        it('should take over when the leader resigns', async () => {
+            const leader = createTab();
+            await elapse(2000);
+            const follower = createTab();
+            await elapse(1000);
+            expect(follower.isLeader).toBe(false);
+
+            leader.destroy();
+            await elapse(500);
+
+            expect(follower.isLeader).toBe(true);
+        });
+    });
+
+    describe('localStorage lock fallback', () => {
+        beforeEach(() => {
+            vi.stubGlobal('BroadcastChannel', undefined);
+        });
+
+        it('should elect the first tab as leader', () => {
+            const first = new TabCoordinator({ lockKey, onEvents: vi.fn() });
+            const second = new TabCoordinator({ lockKey, onEvents: vi.fn() });
+
+            expect(first.isLeader).toBe(true);
+            expect(second.isLeader).toBe(false);
+            expect(second.hasLeader).toBe(true);
+
+            first.destroy();
+            second.destroy();
+        });
+
+        it('should take over when the leader resigns', () => {
+            const first = new TabCoordinator({ lockKey, onEvents: vi.fn() });
+            const second = new TabCoordinator({ lockKey, onEvents: vi.fn() });
+
+            first.destroy();
+            vi.advanceTimersByTime(1000);
+
+            expect(second.isLeader).toBe(true);
+            second.destroy();
+        });
+
+        it('should take over when the leader lock expires', () => {
+            localStorageMock.store[lockKey] = JSON.stringify({
+                tabId: 'stale-tab',
+                expires: Date.now() + 2000,
+            });
+            const coordinator = new TabCoordinator({ lockKey, onEvents: vi.fn() });
+            expect(coordinator.isLeader).toBe(false);
+
+            vi.advanceTimersByTime(3000);
+
+            expect(coordinator.isLeader).toBe(true);
+            coordinator.destroy();
+        });
+
+        it('should not hand off events without a channel', async () => {
+            const first = new TabCoordinator({ lockKey, onEvents: vi.fn() });
+            const second = new TabCoordinator({ lockKey, onEvents: vi.fn() });
+
+            await expect(second.handOff([])).resolves.toBe(false);
+
+            first.destroy();
+            second.destroy();
+        });
+    });
+});
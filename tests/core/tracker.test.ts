@@ -0,0 +1,567 @@
+/**
+ * Tracker Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Tracker } from '../../src/core/tracker';
+import { Transport } from '../../src/core/transport';
+import { logger } from '../../src/core/logger';
+import { createMemoryStorage } from '../../src/utils';
+
+describe('Tracker', () => {
+    describe('server mode', () => {
+        let tracker: Tracker;
+        let sendSpy: ReturnType<typeof vi.spyOn>;
+
+        beforeEach(() => {
+            sendSpy = vi.spyOn(Transport.prototype, 'sendEvents').mockResolvedValue({ success: true });
+            tracker = new Tracker('test-workspace', {
+                serverMode: true,
+                authToken: 'secret',
+                batchSize: 200,
+                flushInterval: 100000,
+            });
+        });
+
+        afterEach(async () => {
+            await tracker.destroy();
+            vi.restoreAllMocks();
+        });
+
+        it('should use the per-call context', async () => {
+            tracker.track(
+                'custom',
+                'invoice_paid',
+                { amount: 100 },
+                {
+                    visitorId: 'visitor-1',
+                    sessionId: 'session-1',
+                    url: 'https://app.test.com/billing',
+                    device: { userAgent: 'backend' },
+                }
+            );
+            await tracker.flush();
+
+            const [events] = sendSpy.mock.calls[0];
+            expect(events[0]).toMatchObject({
+                visitorId: 'visitor-1',
+                sessionId: 'session-1',
+                url: 'https://app.test.com/billing',
+                device: { userAgent: 'backend' },
+                properties: { amount: 100 },
+            });
+        });
+
+        it('should take the page path from the context URL', async () => {
+            tracker.page('Pricing', {}, { visitorId: 'visitor-1', url: 'https://test.com/pricing?plan=pro' });
+            await tracker.flush();
+
+            const [events] = sendSpy.mock.calls[0];
+            expect(events[0].properties.path).toBe('/pricing');
+        });
+
+        it('should apply URL rules to the URL, referrer and page path', async () => {
+            const sanitizing = new Tracker('test-workspace', {
+                serverMode: true,
+                batchSize: 200,
+                flushInterval: 100000,
+                urlRules: { stripParams: ['token'], collapseIds: true },
+            });
+
+            sanitizing.page(
+                'Order',
+                {},
+                {
+                    visitorId: 'visitor-1',
+                    url: 'https://app.test.com/orders/42?token=secret',
+                    referrer: 'https://mail.test.com/reset?token=secret',
+                }
+            );
+            await sanitizing.flush();
+            await sanitizing.destroy();
+
+            const [events] = sendSpy.mock.calls[0];
+            expect(events[0]).toMatchObject({
+                url: 'https://app.test.com/orders/:id',
+                referrer: 'https://mail.test.com/reset',
+                properties: { path: '/orders/:id' },
+            });
+        });
+
+        it('should keep URL rules to the tracker that set them', async () => {
+            const sanitizing = new Tracker('test-workspace', {
+                serverMode: true,
+                urlRules: { stripParams: ['lang'] },
+            });
+
+            tracker.track('custom', 'docs_viewed', {}, { visitorId: 'visitor-1', url: 'https://test.com/docs?lang=en' });
+            await tracker.flush();
+            await sanitizing.destroy();
+
+            const [events] = sendSpy.mock.calls[0];
+            expect(events[0].url).toBe('https://test.com/docs?lang=en');
+        });
+
+        it('should drop events without a visitor ID', async () => {
+            tracker.track('custom', 'no_visitor');
+            await tracker.flush();
+
+            expect(sendSpy).not.toHaveBeenCalled();
+            expect(tracker.getVisitorId()).toBe('');
+        });
+
+        it('should apply the identified user ID only to that call', async () => {
+            tracker.identify('user-42', {}, { visitorId: 'visitor-1' });
+            tracker.track('custom', 'other_user', {}, { visitorId: 'visitor-2' });
+            await tracker.flush();
+
+            const [events] = sendSpy.mock.calls[0];
+            expect(events[0]).toMatchObject({ eventType: 'identify', userId: 'user-42' });
+            expect(events[1].userId).toBeUndefined();
+            expect(tracker.getUserId()).toBeNull();
+        });
+
+        it('should not rate limit by default', () => {
+            for (let i = 0; i < 150; i++) {
+                tracker.track('custom', `event-${i}`, {}, { visitorId: 'visitor-1' });
+            }
+            expect(tracker.getDiagnostics().queueLength).toBe(150);
+        });
+    });
+
+    describe('sessions', () => {
+        let tracker: Tracker;
+        let sendSpy: ReturnType<typeof vi.spyOn>;
+        const onSessionChange = vi.fn();
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            vi.setSystemTime(new Date(2026, 5, 1, 12, 0));
+            sendSpy = vi.spyOn(Transport.prototype, 'sendEvents').mockResolvedValue({ success: true });
+            tracker = new Tracker('test-workspace', {
+                storage: 'memory',
+                plugins: [],
+                batchSize: 200,
+                flushInterval: 100000,
+                onSessionChange,
+            });
+        });
+
+        afterEach(async () => {
+            await tracker.destroy();
+            onSessionChange.mockReset();
+            vi.restoreAllMocks();
+            vi.useRealTimers();
+        });
+
+        const sentEvents = async () => {
+            await tracker.flush();
+            return sendSpy.mock.calls.flatMap(([events]) => events);
+        };
+
+        it('should report the first session', async () => {
+            const [event] = await sentEvents();
+
+            expect(event).toMatchObject({
+                eventType: 'session_start',
+                sessionId: tracker.getSessionId(),
+                properties: { reason: 'new', source: '(direct)', channel: 'direct' },
+            });
+            expect(onSessionChange).toHaveBeenCalledWith(
+                expect.objectContaining({ sessionId: tracker.getSessionId(), reason: 'new' })
+            );
+        });
+
+        it('should end the session after inactivity and start a new one on the next event', async () => {
+            const firstSession = tracker.getSessionId();
+            tracker.track('custom', 'first');
+            vi.setSystemTime(new Date(2026, 5, 1, 12, 45));
+            tracker.track('custom', 'second');
+
+            const events = await sentEvents();
+
+            expect(events.map((e) => e.eventType)).toEqual([
+                'session_start',
+                'custom',
+                'session_end',
+                'session_start',
+                'custom',
+            ]);
+            expect(events[2]).toMatchObject({ sessionId: firstSession, properties: { eventCount: 1 } });
+            expect(events[4].sessionId).toBe(tracker.getSessionId());
+            expect(tracker.getSessionId()).not.toBe(firstSession);
+            expect(onSessionChange).toHaveBeenLastCalledWith(
+                expect.objectContaining({ reason: 'timeout', previousSessionId: firstSession })
+            );
+        });
+    });
+
+    describe('super properties', () => {
+        let tracker: Tracker;
+        let sendSpy: ReturnType<typeof vi.spyOn>;
+
+        beforeEach(() => {
+            sendSpy = vi.spyOn(Transport.prototype, 'sendEvents').mockResolvedValue({ success: true });
+            tracker = new Tracker('test-workspace', {
+                storage: 'memory',
+                plugins: [],
+                batchSize: 200,
+                flushInterval: 100000,
+            });
+        });
+
+        afterEach(async () => {
+            await tracker.destroy();
+            vi.restoreAllMocks();
+        });
+
+        it('should merge registered properties into events, with event properties taking precedence', async () => {
+            tracker.register({ plan: 'pro', appVersion: '2.4.0' });
+            tracker.track('custom', 'upgrade', { plan: 'enterprise' });
+            await tracker.flush();
+
+            const events = sendSpy.mock.calls.flatMap(([batch]) => batch);
+            expect(events.at(-1).properties).toEqual({ plan: 'enterprise', appVersion: '2.4.0' });
+        });
+
+        it('should clear registered properties on reset', async () => {
+            tracker.register({ plan: 'pro' }, { persist: true });
+            tracker.reset();
+            tracker.track('custom', 'after_logout');
+            await tracker.flush();
+
+            const events = sendSpy.mock.calls.flatMap(([batch]) => batch);
+            expect(events.at(-1).properties).toEqual({});
+        });
+    });
+
+    describe('identity', () => {
+        let tracker: Tracker;
+        let sendSpy: ReturnType<typeof vi.spyOn>;
+        const storage = createMemoryStorage();
+        const config = { storage, plugins: [], batchSize: 200, flushInterval: 100000 };
+
+        const sentEvents = async () => {
+            await tracker.flush();
+            return sendSpy.mock.calls.flatMap(([events]) => events);
+        };
+
+        beforeEach(() => {
+            sendSpy = vi.spyOn(Transport.prototype, 'sendEvents').mockResolvedValue({ success: true });
+            tracker = new Tracker('test-workspace', config);
+        });
+
+        afterEach(async () => {
+            await tracker.destroy();
+            storage.removeItem('mb_uid');
+            vi.restoreAllMocks();
+        });
+
+        it('should queue identify as an event and stamp the user ID on later events', async () => {
+            tracker.identify('user-42', { email: 'jane@example.com', plan: 'pro' });
+            tracker.track('custom', 'after_login');
+
+            const events = await sentEvents();
+            const identify = events.find((e) => e.eventType === 'identify');
+            expect(identify).toMatchObject({
+                userId: 'user-42',
+                properties: { email: 'jane@example.com', plan: 'pro' },
+            });
+            expect(events.at(-1).userId).toBe('user-42');
+        });
+
+        it('should keep the user ID across page loads', async () => {
+            tracker.identify('user-42');
+            await tracker.destroy();
+
+            tracker = new Tracker('test-workspace', config);
+            expect(tracker.getUserId()).toBe('user-42');
+        });
+
+        it('should not set a user ID when identifying by email', async () => {
+            tracker.identify('jane@example.com', { firstName: 'Jane' });
+
+            const events = await sentEvents();
+            expect(tracker.getUserId()).toBeNull();
+            expect(events.at(-1)).toMatchObject({
+                eventType: 'identify',
+                properties: { email: 'jane@example.com', firstName: 'Jane' },
+            });
+            expect(events.at(-1).userId).toBeUndefined();
+        });
+
+        it('should send alias events for the current user', async () => {
+            tracker.identify('user-42');
+            tracker.alias('legacy-7');
+            tracker.alias('user-42');
+
+            const events = await sentEvents();
+            const aliases = events.filter((e) => e.eventType === 'alias');
+            expect(aliases).toHaveLength(1);
+            expect(aliases[0]).toMatchObject({ userId: 'user-42', properties: { previousId: 'legacy-7' } });
+        });
+
+        it('should unlink the user on reset', () => {
+            tracker.identify('user-42');
+            tracker.reset();
+
+            expect(tracker.getUserId()).toBeNull();
+            expect(storage.getItem('mb_uid')).toBeNull();
+        });
+
+        it('should keep the visitor ID in its own storage when consent ends anonymous mode', async () => {
+            const anonymous = new Tracker('test-workspace', {
+                ...config,
+                consent: { anonymousMode: true, defaultConsent: { analytics: false } },
+            });
+            expect(anonymous.getVisitorId()).toMatch(/^anon_/);
+
+            anonymous.consent({ analytics: true });
+
+            expect(anonymous.getVisitorId()).not.toMatch(/^anon_/);
+            expect(storage.getItem('mb_vid')).toBe(anonymous.getVisitorId());
+            await anonymous.destroy();
+            storage.removeItem('mb_vid');
+            storage.removeItem('mb_consent');
+        });
+
+        it('should keep each tracker in its own storage', async () => {
+            const otherStorage = createMemoryStorage();
+            const other = new Tracker('other-workspace', { ...config, storage: otherStorage });
+
+            tracker.identify('user-42');
+            other.identify('user-7');
+
+            expect(storage.getItem('mb_uid')).toBe('user-42');
+            expect(otherStorage.getItem('mb_uid')).toBe('user-7');
+            expect(tracker.getVisitorId()).not.toBe(other.getVisitorId());
+            await other.destroy();
+        });
+    });
+
+    describe('groups', () => {
+        let tracker: Tracker;
+        let sendSpy: ReturnType<typeof vi.spyOn>;
+        let groupSpy: ReturnType<typeof vi.spyOn>;
+        const storage = createMemoryStorage();
+        const config = { storage, plugins: [], batchSize: 200, flushInterval: 100000 };
+
+        beforeEach(() => {
+            sendSpy = vi.spyOn(Transport.prototype, 'sendEvents').mockResolvedValue({ success: true });
+            groupSpy = vi.spyOn(Transport.prototype, 'sendGroup').mockResolvedValue({ success: true });
+            tracker = new Tracker('test-workspace', config);
+        });
+
+        afterEach(async () => {
+            await tracker.destroy();
+            storage.removeItem('mb_groups');
+            vi.restoreAllMocks();
+        });
+
+        it('should send group traits and stamp the group on later events', async () => {
+            await tracker.group('company', 'acme', { name: 'Acme Inc', industry: 'Software' });
+            tracker.track('custom', 'report_exported');
+            await tracker.flush();
+
+            expect(groupSpy).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    groupType: 'company',
+                    groupId: 'acme',
+                    visitorId: tracker.getVisitorId(),
+                    traits: { name: 'Acme Inc', industry: 'Software' },
+                })
+            );
+            const events = sendSpy.mock.calls.flatMap(([batch]) => batch);
+            expect(events.at(-1).groups).toEqual({ company: 'acme' });
+        });
+
+        it('should keep the active groups across page loads until reset', async () => {
+            await tracker.group('company', 'acme');
+            await tracker.group('team', 'design');
+            await tracker.destroy();
+
+            tracker = new Tracker('test-workspace', config);
+            tracker.track('custom', 'reloaded');
+            await tracker.flush();
+            tracker.reset();
+            tracker.track('custom', 'after_logout');
+            await tracker.flush();
+
+            const events = sendSpy.mock.calls.flatMap(([batch]) => batch);
+            expect(events.find((e) => e.eventName === 'reloaded').groups).toEqual({ company: 'acme', team: 'design' });
+            expect(events.at(-1).groups).toBeUndefined();
+        });
+    });
+
+    describe('event schema', () => {
+        type Events = { 'Signup Completed': { plan: string; seats: number } };
+        let sendSpy: ReturnType<typeof vi.spyOn>;
+        let warnSpy: ReturnType<typeof vi.spyOn>;
+
+        const createTracker = (onInvalid: 'warn' | 'drop' | 'tag', debug = true) =>
+            new Tracker<Events>('test-workspace', {
+                storage: 'memory',
+                plugins: [],
+                batchSize: 200,
+                flushInterval: 100000,
+                debug,
+                eventSchema: { events: { 'Signup Completed': { plan: 'string', seats: 'number' } }, onInvalid },
+            });
+
+        const trackInvalid = async (tracker: Tracker<Events>) => {
+            tracker.track('custom', 'Signup Completed', { plan: 'pro', seats: '3' as unknown as number });
+            await tracker.flush();
+            await tracker.destroy();
+            return sendSpy.mock.calls.flatMap(([batch]) => batch).find((e) => e.eventName === 'Signup Completed');
+        };
+
+        beforeEach(() => {
+            sendSpy = vi.spyOn(Transport.prototype, 'sendEvents').mockResolvedValue({ success: true });
+            warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+            vi.spyOn(console, 'info').mockImplementation(() => undefined);
+            vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            logger.enabled = false;
+            vi.restoreAllMocks();
+        });
+
+        it('should warn about invalid events and still send them', async () => {
+            const event = await trackInvalid(createTracker('warn'));
+
+            expect(event).toBeDefined();
+            expect(event.schemaErrors).toBeUndefined();
+            expect(warnSpy).toHaveBeenCalledWith(
+                expect.any(String),
+                'Event "Signup Completed" does not match the schema:',
+                ['"seats" should be number, got string']
+            );
+        });
+
+        it('should drop invalid events', async () => {
+            expect(await trackInvalid(createTracker('drop'))).toBeUndefined();
+        });
+
+        it('should tag invalid events', async () => {
+            const event = await trackInvalid(createTracker('tag'));
+            expect(event.schemaErrors).toEqual(['"seats" should be number, got string']);
+        });
+
+        it('should not validate outside debug mode', async () => {
+            const event = await trackInvalid(createTracker('drop', false));
+            expect(event).toBeDefined();
+        });
+    });
+
+    describe('page view plugin', () => {
+        let sendSpy: ReturnType<typeof vi.spyOn>;
+
+        beforeEach(() => {
+            sendSpy = vi.spyOn(Transport.prototype, 'sendEvents').mockResolvedValue({ success: true });
+            vi.stubGlobal('window', {
+                location: {
+                    href: 'https://example.com/pricing?utm_source=google&utm_medium=cpc',
+                    search: '?utm_source=google&utm_medium=cpc',
+                    hostname: 'example.com',
+                    pathname: '/pricing',
+                },
+                innerWidth: 1280,
+                innerHeight: 800,
+                addEventListener: vi.fn(),
+                removeEventListener: vi.fn(),
+            });
+            vi.stubGlobal('document', {
+                referrer: 'https://www.google.com/',
+                title: 'Pricing',
+                addEventListener: vi.fn(),
+                removeEventListener: vi.fn(),
+            });
+            vi.stubGlobal('history', { pushState: vi.fn(), replaceState: vi.fn() });
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+            vi.unstubAllGlobals();
+        });
+
+        it('should track the landing page view with its traffic source', async () => {
+            const tracker = new Tracker('test-workspace', {
+                storage: 'memory',
+                plugins: ['pageView'],
+                crossTabQueue: false,
+                batchSize: 200,
+                flushInterval: 100000,
+            });
+            await tracker.flush();
+            await tracker.destroy();
+
+            const sent = sendSpy.mock.calls.flatMap(([events]) => events);
+            expect(sent.map((event) => event.eventType)).toEqual(['session_start', 'page_view']);
+            expect(sent[1].properties).toMatchObject({
+                path: '/pricing',
+                source: 'google',
+                medium: 'cpc',
+                channel: 'paid',
+                referrerDomain: 'google.com',
+            });
+        });
+    });
+
+    describe('consent platforms', () => {
+        let sendSpy: ReturnType<typeof vi.spyOn>;
+
+        beforeEach(() => {
+            sendSpy = vi.spyOn(Transport.prototype, 'sendEvents').mockResolvedValue({ success: true });
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+            vi.unstubAllGlobals();
+        });
+
+        it('should apply TCF consent and mirror it to Google Consent Mode', async () => {
+            let onTcData: ((tcData: unknown, success: boolean) => void) | undefined;
+            const gtag = vi.fn();
+            vi.stubGlobal('window', {
+                location: { href: 'https://example.com/', search: '', hostname: 'example.com', pathname: '/' },
+                addEventListener: vi.fn(),
+                removeEventListener: vi.fn(),
+                gtag,
+                __tcfapi: (command: string, _version: number, callback: typeof onTcData) => {
+                    if (command === 'addEventListener') onTcData = callback;
+                },
+            });
+            vi.stubGlobal('document', { referrer: '', title: '', addEventListener: vi.fn(), removeEventListener: vi.fn() });
+
+            const tracker = new Tracker('test-workspace', {
+                storage: 'memory',
+                plugins: [],
+                batchSize: 200,
+                flushInterval: 100000,
+                consent: { waitForConsent: true, tcf: true, googleConsentMode: true },
+            });
+            tracker.track('custom', 'before_cmp');
+            expect(tracker.getDiagnostics().queueLength).toBe(0);
+
+            onTcData?.(
+                {
+                    eventStatus: 'useractioncomplete',
+                    gdprApplies: true,
+                    tcString: 'tc-string',
+                    purpose: { consents: { 1: true, 2: true, 3: true, 4: true, 7: true, 8: true, 9: true } },
+                },
+                true
+            );
+
+            expect(tracker.getConsentState()).toMatchObject({ analytics: true, marketing: true, personalization: false });
+            expect(tracker.getDiagnostics().tcString).toBe('tc-string');
+            expect(gtag).toHaveBeenLastCalledWith('consent', 'update', expect.objectContaining({ ad_storage: 'granted' }));
+
+            await tracker.flush();
+            const sent = sendSpy.mock.calls.flatMap(([events]) => events as { eventName: string }[]);
+            expect(sent.map((event) => event.eventName)).toContain('before_cmp');
+            await tracker.destroy();
+        });
+    });
+});
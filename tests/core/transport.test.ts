@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { Transport } from '../../src/core/transport';
+import { Transport, chunkEvents, getBatchId, parseBatchResult, parseRetryAfter } from '../../src/core/transport';
 import type { TrackingEvent, IdentifyPayload } from '../../src/types';
 
 describe('Transport', () => {
@@ -53,12 +53,28 @@ describe('Transport', () => {
                 'https://api.test.com/api/public/track/event',
                 expect.objectContaining({
                     method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'Idempotency-Key': getBatchId(events),
+                    },
                     body: JSON.stringify({ events }),
                 })
             );
         });
 
+        it('should reuse the idempotency key across retries', async () => {
+            fetchMock
+                .mockResolvedValueOnce({ ok: false, status: 500 })
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            await transport.sendEvents([createMockEvent()]);
+
+            const firstKey = fetchMock.mock.calls[0][1].headers['Idempotency-Key'];
+            const secondKey = fetchMock.mock.calls[1][1].headers['Idempotency-Key'];
+            expect(firstKey).toBeDefined();
+            expect(secondKey).toBe(firstKey);
+        });
+
         it('should return failure for 4xx errors', async () => {
             fetchMock.mockResolvedValueOnce({
                 ok: false,
@@ -106,6 +122,205 @@ describe('Transport', () => {
         });
     });
 
+    describe('parseBatchResult()', () => {
+        it('should parse a structured batch response', () => {
+            const result = parseBatchResult({
+                accepted: [0, 2],
+                rejected: [{ index: 1, reason: 'too_large' }, 3],
+                retryable: [4, 99],
+            }, 5);
+
+            expect(result).toEqual({
+                accepted: [0, 2],
+                rejected: [
+                    { index: 1, reason: 'too_large' },
+                    { index: 3, reason: 'rejected' },
+                ],
+                retryable: [4],
+            });
+        });
+
+        it('should return null for unstructured bodies', () => {
+            expect(parseBatchResult(undefined, 1)).toBeNull();
+            expect(parseBatchResult({ success: true }, 1)).toBeNull();
+        });
+
+        it('should attach batch results to sendEvents()', async () => {
+            fetchMock.mockResolvedValueOnce({
+                ok: true,
+                status: 207,
+                json: async () => ({ accepted: [0], retryable: [] }),
+            });
+
+            const result = await transport.sendEvents([createMockEvent()]);
+
+            expect(result.batch).toEqual({ accepted: [0], rejected: [], retryable: [] });
+        });
+    });
+
+    describe('chunkEvents()', () => {
+        it('should keep chunks under the size limit', () => {
+            const events = Array.from({ length: 10 }, () => createMockEvent());
+            const eventSize = JSON.stringify(events[0]).length;
+
+            const chunks = chunkEvents(events, eventSize * 3 + 20);
+
+            expect(chunks.map((chunk) => chunk.length)).toEqual([3, 3, 3, 1]);
+        });
+
+        it('should give an oversized event its own chunk', () => {
+            const chunks = chunkEvents([createMockEvent(), createMockEvent()], 10);
+            expect(chunks).toHaveLength(2);
+        });
+    });
+
+    describe('getBatchId()', () => {
+        it('should derive the same key for rebuilt batches', () => {
+            const first = { ...createMockEvent(), eventId: 'event-1' };
+            const second = { ...createMockEvent(), eventId: 'event-2' };
+
+            expect(getBatchId([first, second])).toBe(getBatchId([{ ...first }, { ...second }]));
+            expect(getBatchId([first, second])).not.toBe(getBatchId([first]));
+        });
+
+        it('should assign missing event IDs', () => {
+            const event = createMockEvent();
+            getBatchId([event]);
+            expect(event.eventId).toBeDefined();
+        });
+    });
+
+    describe('retry policy', () => {
+        it('should retry 429 responses after Retry-After', async () => {
+            fetchMock
+                .mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '0' }) })
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            const result = await transport.sendEvents([createMockEvent()]);
+
+            expect(result.success).toBe(true);
+            expect(fetchMock).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not wait for a Retry-After beyond the max delay', async () => {
+            fetchMock.mockResolvedValueOnce({
+                ok: false,
+                status: 503,
+                headers: new Headers({ 'Retry-After': '3600' }),
+            });
+
+            const result = await transport.sendEvents([createMockEvent()]);
+
+            expect(result.success).toBe(false);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(transport.isAvailable()).toBe(false);
+        });
+
+        it('should skip requests while the circuit is open', async () => {
+            const breakerTransport = new Transport({
+                apiEndpoint: 'https://api.test.com',
+                maxRetries: 1,
+                circuitBreaker: { failureThreshold: 1, cooldown: 60000 },
+            });
+            fetchMock.mockRejectedValue(new Error('Network error'));
+
+            await breakerTransport.sendEvents([createMockEvent()]);
+            const result = await breakerTransport.sendEvents([createMockEvent()]);
+
+            expect(result.success).toBe(false);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(breakerTransport.getCircuitState().state).toBe('open');
+        });
+
+        it('should parse Retry-After seconds and dates', () => {
+            expect(parseRetryAfter('120')).toBe(120000);
+            expect(parseRetryAfter(new Date(Date.now() + 5000).toUTCString())).toBeGreaterThan(0);
+            expect(parseRetryAfter('soon')).toBeNull();
+            expect(parseRetryAfter(null)).toBeNull();
+        });
+    });
+
+    describe('compression', () => {
+        let gzipTransport: Transport;
+
+        beforeEach(() => {
+            gzipTransport = new Transport({ apiEndpoint: 'https://api.test.com', compression: { enabled: true } });
+        });
+
+        const createLargeBatch = (): TrackingEvent[] =>
+            Array.from({ length: 20 }, () => createMockEvent());
+
+        const decompress = async (body: ArrayBuffer | Blob): Promise<string> => {
+            const stream = new Blob([body]).stream().pipeThrough(new DecompressionStream('gzip'));
+            return new Response(stream).text();
+        };
+
+        it('should gzip payloads above the threshold', async () => {
+            fetchMock.mockResolvedValueOnce({ ok: true, status: 200 });
+            const events = createLargeBatch();
+
+            await gzipTransport.sendEvents(events);
+
+            const options = fetchMock.mock.calls[0][1];
+            expect(options.headers['Content-Encoding']).toBe('gzip');
+            expect(await decompress(options.body)).toBe(JSON.stringify({ events }));
+        });
+
+        it('should send plain JSON unless compression is enabled', async () => {
+            fetchMock.mockResolvedValueOnce({ ok: true, status: 200 });
+
+            await transport.sendEvents(createLargeBatch());
+
+            const options = fetchMock.mock.calls[0][1];
+            expect(options.headers['Content-Encoding']).toBeUndefined();
+            expect(typeof options.body).toBe('string');
+        });
+
+        it('should mark compressed beacons in the URL', async () => {
+            const beaconMock = vi.fn().mockReturnValue(true);
+            vi.stubGlobal('navigator', { sendBeacon: beaconMock });
+
+            const result = await gzipTransport.sendBeaconCompressed(createLargeBatch());
+
+            expect(result).toBe(true);
+            expect(beaconMock).toHaveBeenCalledWith(
+                'https://api.test.com/api/public/track/event?content_encoding=gzip',
+                expect.any(Blob)
+            );
+        });
+    });
+
+    describe('batch version negotiation', () => {
+        it('should switch to the v2 envelope once the backend opts in', async () => {
+            fetchMock
+                .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers({ 'X-Clianta-Batch-Version': '2' }) })
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            await transport.sendEvents([createMockEvent()]);
+            await transport.sendEvents([createMockEvent()]);
+
+            expect(JSON.parse(fetchMock.mock.calls[0][1].body)).not.toHaveProperty('v');
+            expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toMatchObject({ v: 2 });
+            expect(transport.getBatchVersion()).toBe(2);
+        });
+
+        it('should switch to the v2 envelope when the response body opts in', async () => {
+            fetchMock
+                .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: async () => ({ batchVersion: 2 }) })
+                .mockResolvedValueOnce({ ok: true, status: 200 });
+
+            await transport.sendEvents([createMockEvent()]);
+            await transport.sendEvents([createMockEvent()]);
+
+            expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toMatchObject({ v: 2 });
+        });
+
+        it('should honour a fixed batch version', () => {
+            const v1Transport = new Transport({ apiEndpoint: 'https://api.test.com', batchVersion: 1 });
+            expect(v1Transport.getBatchVersion()).toBe(1);
+        });
+    });
+
     describe('sendIdentify()', () => {
         it('should send identify request to correct endpoint', async () => {
             fetchMock.mockResolvedValueOnce({
@@ -131,6 +346,37 @@ describe('Transport', () => {
                 })
             );
         });
+
+        it('should send the auth token as a Bearer header', async () => {
+            fetchMock.mockResolvedValueOnce({ ok: true, status: 200 });
+            const authed = new Transport({ apiEndpoint: 'https://api.test.com', authToken: 'secret' });
+
+            await authed.sendIdentify({ workspaceId: 'test-workspace', visitorId: 'test-visitor', email: 'a@b.co' });
+
+            const [, init] = fetchMock.mock.calls[0];
+            expect(init.headers.Authorization).toBe('Bearer secret');
+        });
+    });
+
+    describe('sendGroup()', () => {
+        it('should send group traits to the group endpoint', async () => {
+            fetchMock.mockResolvedValueOnce({ ok: true, status: 200 });
+            const payload = {
+                workspaceId: 'test-workspace',
+                visitorId: 'test-visitor',
+                groupType: 'company',
+                groupId: 'acme',
+                traits: { name: 'Acme Inc' },
+            };
+
+            const result = await transport.sendGroup(payload);
+
+            expect(result.success).toBe(true);
+            expect(fetchMock).toHaveBeenCalledWith(
+                'https://api.test.com/api/public/track/group',
+                expect.objectContaining({ method: 'POST', body: JSON.stringify(payload) })
+            );
+        });
     });
 
     describe('sendBeacon()', () => {
@@ -0,0 +1,47 @@
+/**
+ * URL Rules Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sanitizeUrl } from '../../src/core/urlRules';
+
+describe('URL rules', () => {
+    it('should return URLs unchanged without rules', () => {
+        const url = 'https://example.com/orders/123?token=abc#top';
+        expect(sanitizeUrl(url)).toBe(url);
+    });
+
+    it('should strip query parameters by name and pattern', () => {
+        const rules = { stripParams: ['Token', /^utm_/] };
+
+        expect(sanitizeUrl('https://example.com/reset?token=abc&utm_source=x&lang=en', rules)).toBe(
+            'https://example.com/reset?lang=en'
+        );
+        expect(sanitizeUrl('https://example.com/reset?token=abc', rules)).toBe('https://example.com/reset');
+    });
+
+    it('should collapse IDs, UUIDs and tokens in paths', () => {
+        const rules = { collapseIds: true };
+
+        expect(
+            sanitizeUrl('https://example.com/orders/12345/items/9f1c2e4a-7b3d-4c5e-8f6a-1b2c3d4e5f60', rules)
+        ).toBe('https://example.com/orders/:id/items/:id');
+        expect(sanitizeUrl('https://example.com/auth/magic/Qm9vZ3Jh4bGFzaGVkVG9rZW5Gb3JNYWdp', rules)).toBe(
+            'https://example.com/auth/magic/:token'
+        );
+        expect(sanitizeUrl('https://example.com/blog/how-to-track-events', rules)).toBe(
+            'https://example.com/blog/how-to-track-events'
+        );
+    });
+
+    it('should check custom path rules first', () => {
+        const rules = { collapseIds: true, pathRules: [{ match: /^ORD-\d+$/, replacement: ':order' }] };
+        expect(sanitizeUrl('/orders/ORD-991/lines/7', rules)).toBe('/orders/:order/lines/:id');
+    });
+
+    it('should drop the hash', () => {
+        expect(sanitizeUrl('https://example.com/app#access_token=abc', { dropHash: true })).toBe(
+            'https://example.com/app'
+        );
+    });
+});
@@ -2,7 +2,7 @@
  * Utils Tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock storage
 const localStorageMock = {
@@ -38,7 +38,16 @@ import {
     getFilenameFromUrl,
     getFileExtension,
     isDownloadUrl,
+    setStorage,
+    getStorage,
+    createStorage,
+    getOrCreateVisitorId,
+    getOrCreateSessionId,
+    resetIds,
+    cookie,
+    createCookieStorage,
 } from '../../src/utils';
+import type { StorageAdapter } from '../../src/types';
 
 describe('Utils', () => {
     beforeEach(() => {
@@ -74,6 +83,120 @@ describe('Utils', () => {
         });
     });
 
+    describe('storage adapters', () => {
+        afterEach(() => {
+            setStorage();
+        });
+
+        it('should default to localStorage and sessionStorage', () => {
+            getStorage().setItem('key', 'persistent');
+            getStorage('session').setItem('key', 'session');
+
+            expect(localStorageMock.store['key']).toBe('persistent');
+            expect(sessionStorageMock.store['key']).toBe('session');
+        });
+
+        it('should keep IDs in memory without touching web storage', () => {
+            setStorage('memory');
+
+            const visitorId = getOrCreateVisitorId();
+            getOrCreateSessionId(1000);
+
+            expect(getStorage().getItem('mb_vid')).toBe(visitorId);
+            expect(getStorage('session').getItem('mb_sid')).not.toBeNull();
+            expect(localStorageMock.setItem).not.toHaveBeenCalled();
+            expect(sessionStorageMock.setItem).not.toHaveBeenCalled();
+        });
+
+        it('should adopt linked IDs over stored ones', () => {
+            setStorage('memory');
+            getOrCreateVisitorId();
+            getOrCreateSessionId(1000);
+
+            expect(getOrCreateVisitorId(false, 'linked-visitor')).toBe('linked-visitor');
+            expect(getOrCreateSessionId(1000, 'linked-session')).toBe('linked-session');
+            expect(getOrCreateVisitorId()).toBe('linked-visitor');
+            expect(getOrCreateSessionId(1000)).toBe('linked-session');
+        });
+
+        it('should route every scope through a custom adapter', () => {
+            const items: Record<string, string> = {};
+            const adapter: StorageAdapter = {
+                getItem: (key) => items[key] ?? null,
+                setItem: (key, value) => {
+                    items[key] = value;
+                },
+                removeItem: (key) => {
+                    delete items[key];
+                },
+            };
+            setStorage(adapter);
+
+            getOrCreateVisitorId();
+            getOrCreateSessionId(1000);
+            expect(Object.keys(items).sort()).toEqual(['mb_sid', 'mb_st', 'mb_vid']);
+
+            resetIds();
+            expect(items).toEqual({});
+        });
+
+        it('should keep the event queue out of cookies', () => {
+            const storage = createStorage('cookie');
+
+            storage.queue.setItem('mb_queue', '[]');
+            expect(localStorageMock.store['mb_queue']).toBe('[]');
+            expect(storage.persistent).toBe(storage.cookie);
+        });
+    });
+
+    describe('cookie()', () => {
+        let writes: string[];
+
+        beforeEach(() => {
+            writes = [];
+            vi.stubGlobal('document', {
+                get cookie() {
+                    return writes.map((write) => write.split(';')[0]).join('; ');
+                },
+                set cookie(value: string) {
+                    writes.push(value);
+                },
+            });
+        });
+
+        afterEach(() => {
+            vi.stubGlobal('document', undefined);
+        });
+
+        it('should URI-encode values', () => {
+            cookie('mb_test', 'a b;c');
+            expect(writes[0]).toMatch(/^mb_test=a%20b%3Bc; path=\/; SameSite=Lax$/);
+            expect(cookie('mb_test')).toBe('a b;c');
+        });
+
+        it('should write domain, Secure and SameSite attributes', () => {
+            cookie('mb_test', 'value', { days: 1, domain: '.example.com', secure: true, sameSite: 'Strict' });
+            expect(writes[0]).toContain('; domain=.example.com');
+            expect(writes[0]).toContain('; SameSite=Strict; Secure');
+            expect(writes[0]).toContain('; expires=');
+        });
+
+        it('should always make SameSite=None cookies Secure', () => {
+            cookie('mb_test', 'value', { sameSite: 'None' });
+            expect(writes[0]).toContain('; SameSite=None; Secure');
+        });
+
+        it('should delete cookies on the domain they were set on', () => {
+            const storage = createCookieStorage({ domain: '.example.com' });
+            storage.removeItem('mb_vid');
+
+            expect(writes[0]).toContain('mb_vid=; path=/; expires=');
+            expect(writes[0]).toContain('; domain=.example.com');
+            // Host-only cookie from before the domain was configured
+            expect(writes[1]).not.toContain('domain=');
+        });
+    });
+
     describe('getElementText()', () => {
         it('should extract text content', () => {
             const mockElement = {